@@ -3,25 +3,44 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { AuthProvider } from "@/components/AuthProvider";
 import Index from "./pages/Index";
 import Search from "./pages/Search";
+import Restaurant from "./pages/Restaurant";
+import Lists from "./pages/Lists";
+import SharedList from "./pages/SharedList";
+import History from "./pages/History";
+import Preferences from "./pages/Preferences";
+import Groups from "./pages/Groups";
+import GroupInvite from "./pages/GroupInvite";
+import GroupSession from "./pages/GroupSession";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Search />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Search />} />
+            <Route path="/restaurant/:placeId" element={<Restaurant />} />
+            <Route path="/lists" element={<Lists />} />
+            <Route path="/lists/shared/:shareToken" element={<SharedList />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/preferences" element={<Preferences />} />
+            <Route path="/groups" element={<Groups />} />
+            <Route path="/groups/join/:joinToken" element={<GroupInvite />} />
+            <Route path="/groups/:sessionId" element={<GroupSession />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Mail } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+interface AuthDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const AuthDialog: React.FC<AuthDialogProps> = ({ open, onOpenChange }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSignUp, setIsSignUp] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const { toast } = useToast();
+
+  // Come back to the page the user signed in from, filters and all
+  const redirectTo = window.location.href;
+
+  const showError = (message: string) => {
+    toast({
+      title: "Authentication Failed",
+      description: message,
+      variant: "destructive",
+    });
+  };
+
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+
+    setIsSubmitting(false);
+    if (error) {
+      showError(error.message);
+      return;
+    }
+    setMagicLinkSent(true);
+  };
+
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const { data, error } = isSignUp
+      ? await supabase.auth.signUp({ email, password, options: { emailRedirectTo: redirectTo } })
+      : await supabase.auth.signInWithPassword({ email, password });
+
+    setIsSubmitting(false);
+    if (error) {
+      showError(error.message);
+      return;
+    }
+
+    // Sign-up without a session means the project requires email confirmation
+    if (isSignUp && !data.session) {
+      toast({
+        title: "Check Your Email",
+        description: "Confirm your address to finish creating your account.",
+      });
+    } else {
+      toast({
+        title: isSignUp ? "Account Created" : "Signed In",
+        description: `Welcome${isSignUp ? '' : ' back'}, ${email}!`,
+      });
+    }
+    onOpenChange(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setPassword('');
+      setMagicLinkSent(false);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sign in</DialogTitle>
+          <DialogDescription>Keep your search history and saved lists across devices.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="magic-link">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="magic-link">Email link</TabsTrigger>
+            <TabsTrigger value="password">Password</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="magic-link">
+            {magicLinkSent ? (
+              <div className="text-center space-y-2 py-6">
+                <Mail className="w-10 h-10 text-primary mx-auto" />
+                <p className="font-medium">Check your inbox</p>
+                <p className="text-sm text-muted-foreground">
+                  We sent a sign-in link to {email}.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleMagicLink} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="magic-email">Email</Label>
+                  <Input
+                    id="magic-email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Send sign-in link
+                </Button>
+              </form>
+            )}
+          </TabsContent>
+
+          <TabsContent value="password">
+            <form onSubmit={handlePassword} className="space-y-4 pt-2">
+              <div className="space-y-2">
+                <Label htmlFor="password-email">Email</Label>
+                <Input
+                  id="password-email"
+                  type="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  required
+                  minLength={6}
+                  autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {isSignUp ? 'Create account' : 'Sign in'}
+              </Button>
+              <p className="text-sm text-center text-muted-foreground">
+                {isSignUp ? 'Already have an account?' : 'New here?'}{' '}
+                <button type="button" className="text-primary hover:underline" onClick={() => setIsSignUp(!isSignUp)}>
+                  {isSignUp ? 'Sign in' : 'Create an account'}
+                </button>
+              </p>
+            </form>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Loader2, MessageSquare, RotateCcw, Send } from 'lucide-react';
+import { RestaurantCard } from '@/components/RestaurantCard';
+import { fetchConversation, sendAgentMessage, type AgentMessage } from '@/lib/agent-chat';
+import type { TasteProfile } from '@/lib/preferences';
+import { cn } from '@/lib/utils';
+
+// Survives reloads so the panel reopens on the same conversation
+const CONVERSATION_STORAGE_KEY = 'chat-agent-conversation';
+
+const SUGGESTIONS = [
+  'Cheap Jain thali near Andheri open after 10pm',
+  'Best biryani within 3 km',
+  'Quiet vegetarian cafe for a work lunch',
+];
+
+interface ChatPanelProps {
+  profile?: TasteProfile;
+  defaultLocation?: string;       // searched around when the user doesn't say where
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ profile, defaultLocation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [conversationId, setConversationId] = useState<string | null>(
+    () => localStorage.getItem(CONVERSATION_STORAGE_KEY)
+  );
+  const [messages, setMessages] = useState<AgentMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasRestoredRef = useRef(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Load the stored conversation the first time the panel opens
+  useEffect(() => {
+    if (!isOpen || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    if (!conversationId) return;
+
+    setIsRestoring(true);
+    fetchConversation(conversationId)
+      .then(setMessages)
+      .catch(() => {
+        // Gone, or started by another account: start over
+        localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+        setConversationId(null);
+      })
+      .finally(() => setIsRestoring(false));
+  }, [isOpen, conversationId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isSending]);
+
+  const startNewChat = () => {
+    localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+    setConversationId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || isSending) return;
+
+    setMessages(prev => [...prev, { role: 'user', content: message, citations: [] }]);
+    setInput('');
+    setError(null);
+    setIsSending(true);
+
+    try {
+      const result = await sendAgentMessage(conversationId, message, {
+        profile,
+        default_location: defaultLocation || undefined,
+      });
+      localStorage.setItem(CONVERSATION_STORAGE_KEY, result.conversation_id);
+      setConversationId(result.conversation_id);
+      setMessages(prev => [...prev, { role: 'assistant', content: result.reply, citations: result.citations }]);
+    } catch (error) {
+      console.error('Chat agent error:', error);
+      setError((error as Error).message);
+      // Put the message back so it can be retried
+      setMessages(prev => prev.slice(0, -1));
+      setInput(message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const renderMessage = (message: AgentMessage, index: number) => (
+    <div key={index} className={cn('space-y-3', message.role === 'user' && 'flex justify-end')}>
+      <div
+        className={cn(
+          'rounded-lg px-3 py-2 text-sm whitespace-pre-wrap max-w-[85%]',
+          message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+        )}
+      >
+        {message.content}
+      </div>
+      {message.citations.map(({ n, restaurant }) => (
+        <div key={`${index}-${n}`} className="space-y-1">
+          <Badge variant="secondary">#{n}</Badge>
+          <RestaurantCard restaurant={restaurant} />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <MessageSquare className="w-4 h-4" />
+          Ask the agent
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col gap-0 p-0">
+        <SheetHeader className="p-6 pb-4 border-b">
+          <SheetTitle>Restaurant Agent</SheetTitle>
+          <SheetDescription>
+            Describe what you're looking for, then refine it: "cheaper", "closer", "open later".
+          </SheetDescription>
+          {messages.length > 0 && (
+            <Button variant="ghost" size="sm" className="self-start gap-2 -ml-2" onClick={startNewChat} disabled={isSending}>
+              <RotateCcw className="w-4 h-4" />
+              New chat
+            </Button>
+          )}
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {isRestoring ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+              <Loader2 className="w-5 h-5 animate-spin" />
+              Loading conversation...
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">Try one of these:</p>
+              <div className="flex flex-wrap gap-2">
+                {SUGGESTIONS.map(suggestion => (
+                  <Badge
+                    key={suggestion}
+                    variant="outline"
+                    className="cursor-pointer hover:scale-105 transition-transform"
+                    onClick={() => send(suggestion)}
+                  >
+                    {suggestion}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ) : (
+            messages.map(renderMessage)
+          )}
+          {isSending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <div ref={bottomRef} />
+        </div>
+
+        <form
+          className="flex gap-2 p-4 border-t"
+          onSubmit={(e) => {
+            e.preventDefault();
+            send(input);
+          }}
+        >
+          <Input
+            placeholder="e.g. cheap Jain thali near Andheri open after 10pm"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            maxLength={1000}
+            disabled={isRestoring}
+          />
+          <Button type="submit" size="icon" disabled={!input.trim() || isSending || isRestoring} aria-label="Send">
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from '@/components/ui/drawer';
+import { Loader2, Scale, Sparkles, Trophy, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { fetchVerdict, hasSharedOrigin, MAX_COMPARED, MIN_COMPARED, type ComparedRestaurant, type Verdict } from '@/lib/compare';
+import { formatDistance, formatTravelTime } from '@/lib/distance';
+import { getOpenStatus } from '@/lib/opening-hours';
+import { SCORE_COMPONENT_LABELS, type ScoreComponent } from '@/lib/score-components';
+import { cn } from '@/lib/utils';
+
+interface CompareRow {
+  label: string;
+  render: (restaurant: ComparedRestaurant) => React.ReactNode;
+  value?: (restaurant: ComparedRestaurant) => number | undefined;   // highlights the best place in the row
+  lowerIsBetter?: boolean;
+}
+
+// Places holding the best value, or none when there is nothing to choose
+// between (fewer than two values, or all equal)
+const findBest = (restaurants: ComparedRestaurant[], { value, lowerIsBetter }: CompareRow): Set<string> => {
+  if (!value) return new Set();
+
+  const values = restaurants
+    .map(restaurant => ({ placeId: restaurant.place_id, value: value(restaurant) }))
+    .filter((entry): entry is { placeId: string; value: number } => entry.value !== undefined && Number.isFinite(entry.value));
+  if (values.length < 2) return new Set();
+
+  const best = lowerIsBetter ? Math.min(...values.map(v => v.value)) : Math.max(...values.map(v => v.value));
+  if (values.every(v => v.value === best)) return new Set();
+
+  return new Set(values.filter(v => v.value === best).map(v => v.placeId));
+};
+
+const renderList = (items: string[] | undefined) => items && items.length > 0 ? (
+  <ul className="space-y-1">
+    {items.map((item, index) => <li key={index}>• {item}</li>)}
+  </ul>
+) : (
+  <span className="text-muted-foreground">—</span>
+);
+
+const scoreComponent = (restaurant: ComparedRestaurant, key: ScoreComponent['key']) =>
+  restaurant.score_breakdown?.find(component => component.key === key);
+
+const distanceRow: CompareRow = {
+  label: 'Distance',
+  render: (r) => r.distance_meters !== undefined ? (
+    <>
+      {formatDistance(r.distance_meters)}
+      {r.travel_time && <span className="block text-xs text-muted-foreground">{formatTravelTime(r.travel_time)}</span>}
+    </>
+  ) : (
+    <span className="text-muted-foreground">—</span>
+  ),
+  value: (r) => r.distance_meters,
+  lowerIsBetter: true,
+};
+
+const buildRows = (restaurants: ComparedRestaurant[], showDistance: boolean): CompareRow[] => {
+  // Only the components some compared place was actually scored on
+  const scoreKeys = (Object.keys(SCORE_COMPONENT_LABELS) as ScoreComponent['key'][])
+    .filter(key => restaurants.some(restaurant => scoreComponent(restaurant, key)));
+
+  return [
+    {
+      label: 'Rating',
+      render: (r) => (
+        <>
+          ★ {r.rating?.toFixed(1) ?? 'N/A'}
+          {r.user_ratings_total ? <span className="text-xs text-muted-foreground"> ({r.user_ratings_total.toLocaleString()})</span> : null}
+        </>
+      ),
+      value: (r) => r.rating ?? undefined,
+    },
+    {
+      label: 'Price',
+      render: (r) => '$'.repeat(r.price_level || 1),
+      value: (r) => r.price_level || undefined,
+      lowerIsBetter: true,
+    },
+    ...(showDistance ? [distanceRow] : []),
+    {
+      label: 'Hours',
+      render: (r) => getOpenStatus(r.opening_hours)?.label ?? <span className="text-muted-foreground">Unknown</span>,
+    },
+    {
+      label: 'Dietary',
+      render: (r) => {
+        const labels = [
+          r.dietary?.veg_only && r.dietary.veg_confidence !== 'low' && 'Pure Veg',
+          r.dietary?.jain_food && r.dietary.jain_confidence !== 'low' && 'Jain-friendly',
+        ].filter(Boolean).join(', ');
+        return labels || <span className="text-muted-foreground">—</span>;
+      },
+    },
+    {
+      label: 'Summary',
+      render: (r) => r.ai_summary?.short_summary ?? <span className="text-muted-foreground">—</span>,
+    },
+    { label: 'Pros', render: (r) => renderList(r.ai_summary?.pros) },
+    { label: 'Cons', render: (r) => renderList(r.ai_summary?.cons) },
+    { label: 'Dishes to try', render: (r) => renderList(r.ai_summary?.dishes_to_try) },
+    ...scoreKeys.map((key): CompareRow => ({
+      label: SCORE_COMPONENT_LABELS[key],
+      render: (r) => {
+        const component = scoreComponent(r, key);
+        return component ? component.points.toFixed(1) : <span className="text-muted-foreground">—</span>;
+      },
+      value: (r) => scoreComponent(r, key)?.points,
+    })),
+    {
+      label: 'Total score',
+      render: (r) => r.total_score ?? <span className="text-muted-foreground">—</span>,
+      value: (r) => r.total_score,
+    },
+  ];
+};
+
+interface CompareDrawerProps {
+  restaurants: ComparedRestaurant[];
+  onRemove: (placeId: string) => void;
+  onClear: () => void;
+}
+
+// A bar at the bottom of the page while places are picked for comparison,
+// opening a drawer with them side by side
+export const CompareDrawer: React.FC<CompareDrawerProps> = ({ restaurants, onRemove, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [occasion, setOccasion] = useState('');
+  const [verdict, setVerdict] = useState<Verdict | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+  const { toast } = useToast();
+
+  // A verdict is only valid for the places it compared
+  const placeIdsKey = restaurants.map(restaurant => restaurant.place_id).join(',');
+  useEffect(() => {
+    setVerdict(null);
+  }, [placeIdsKey]);
+
+  if (restaurants.length === 0) {
+    return null;
+  }
+
+  const handleVerdict = async () => {
+    setIsJudging(true);
+    try {
+      setVerdict(await fetchVerdict(restaurants.map(restaurant => restaurant.place_id), occasion.trim()));
+    } catch (error) {
+      toast({
+        title: "Couldn't Compare",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
+  // Distances measured from different search points can't be compared
+  const showDistance = hasSharedOrigin(restaurants);
+  const rows = buildRows(restaurants, showDistance);
+  const pick = restaurants.find(restaurant => restaurant.place_id === verdict?.pick_place_id);
+  const gridStyle = { gridTemplateColumns: `8rem repeat(${restaurants.length}, minmax(12rem, 1fr))` };
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40">
+        <Card className="shadow-warm flex items-center gap-3 px-4 py-2">
+          <Scale className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Comparing {restaurants.length} of {MAX_COMPARED}</span>
+          <DrawerTrigger asChild>
+            <Button size="sm" disabled={restaurants.length < MIN_COMPARED}>Compare</Button>
+          </DrawerTrigger>
+          <Button variant="ghost" size="sm" onClick={onClear}>Clear</Button>
+        </Card>
+      </div>
+
+      <DrawerContent className="max-h-[90vh]">
+        <DrawerHeader>
+          <DrawerTitle>Compare Restaurants</DrawerTitle>
+          <DrawerDescription>
+            The best value in each row is highlighted.
+            {!showDistance && ' Distances are hidden because the places come from searches around different locations.'}
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="overflow-auto px-4 pb-6 space-y-4">
+          {/* Verdict */}
+          <div className="flex gap-2 max-w-xl">
+            <Input
+              placeholder="Which to pick for… e.g. a quiet date night"
+              value={occasion}
+              onChange={(e) => setOccasion(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && occasion.trim() && !isJudging && handleVerdict()}
+              maxLength={200}
+            />
+            <Button
+              variant="outline"
+              onClick={handleVerdict}
+              disabled={!occasion.trim() || isJudging || restaurants.length < MIN_COMPARED}
+            >
+              {isJudging ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              Ask AI
+            </Button>
+          </div>
+          {verdict && (
+            <div className="bg-primary/5 border border-primary/20 p-3 rounded-lg max-w-3xl">
+              <p className="text-sm">
+                {pick && (
+                  <span className="font-semibold">
+                    <Trophy className="w-4 h-4 inline mr-1 text-primary" />
+                    {pick.name}:{' '}
+                  </span>
+                )}
+                {verdict.verdict}
+              </p>
+            </div>
+          )}
+
+          {/* Side by side */}
+          <div className="grid gap-x-4 text-sm" style={gridStyle}>
+            <div />
+            {restaurants.map(restaurant => (
+              <div key={restaurant.place_id} className="space-y-2 pb-3">
+                {restaurant.photos?.[0] && (
+                  <img src={restaurant.photos[0]} alt={restaurant.name} className="w-full h-24 object-cover rounded-md" />
+                )}
+                <div className="flex items-start justify-between gap-2">
+                  <Link
+                    to={`/restaurant/${encodeURIComponent(restaurant.place_id)}`}
+                    className="font-semibold hover:underline line-clamp-2"
+                  >
+                    {restaurant.name}
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={() => onRemove(restaurant.place_id)}
+                    aria-label={`Remove ${restaurant.name}`}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                {restaurant.place_id === pick?.place_id && <Badge>AI pick</Badge>}
+              </div>
+            ))}
+
+            {verdict && verdict.notes.length > 0 && (
+              <React.Fragment>
+                <div className="font-medium text-muted-foreground border-t py-2">AI note</div>
+                {restaurants.map(restaurant => (
+                  <div key={restaurant.place_id} className="border-t py-2">
+                    {verdict.notes.find(note => note.place_id === restaurant.place_id)?.note ?? '—'}
+                  </div>
+                ))}
+              </React.Fragment>
+            )}
+
+            {rows.map(row => {
+              const best = findBest(restaurants, row);
+              return (
+                <React.Fragment key={row.label}>
+                  <div className="font-medium text-muted-foreground border-t py-2">{row.label}</div>
+                  {restaurants.map(restaurant => (
+                    <div
+                      key={restaurant.place_id}
+                      className={cn('border-t py-2', best.has(restaurant.place_id) && 'font-semibold text-primary')}
+                    >
+                      {row.render(restaurant)}
+                    </div>
+                  ))}
+                </React.Fragment>
+              );
+            })}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
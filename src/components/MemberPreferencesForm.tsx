@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CUISINE_OPTIONS } from '@/lib/cuisines';
+import { updateMemberPreferences, type GroupMember, type MemberPreferences } from '@/lib/groups';
+
+type DietaryFlag = 'veg_only' | 'jain_food' | 'vegan' | 'halal' | 'gluten_free';
+
+// Every member's needs apply to the whole group
+const DIETARY_OPTIONS: Array<{ key: DietaryFlag; label: string; description: string }> = [
+  { key: 'veg_only', label: 'Vegetarian', description: 'The group only goes to vegetarian places' },
+  { key: 'jain_food', label: 'Jain', description: 'The group only goes to places with Jain options' },
+  { key: 'vegan', label: 'Vegan', description: 'Vegetarian, with vegan-friendly places ranked first' },
+  { key: 'halal', label: 'Halal', description: 'Places serving pork are left out; known halal places rank first' },
+  { key: 'gluten_free', label: 'Gluten-free', description: 'Places with gluten-free options rank first' },
+];
+
+const PRICE_LABELS = ['Budget', 'Moderate', 'Upscale', 'Fine Dining'];
+
+const toForm = ({
+  display_name, veg_only, jain_food, vegan, halal, gluten_free, allergens, max_price, favorite_cuisines, disliked_cuisines,
+}: GroupMember): MemberPreferences =>
+  ({ display_name, veg_only, jain_food, vegan, halal, gluten_free, allergens, max_price, favorite_cuisines, disliked_cuisines });
+
+interface MemberPreferencesFormProps {
+  member: GroupMember;
+  onSaved: () => Promise<unknown>;
+}
+
+// The signed-in member's own needs in a group session. Key it by the row's
+// updated_at so a save reloads the form but live updates from others don't.
+export const MemberPreferencesForm: React.FC<MemberPreferencesFormProps> = ({ member, onSaved }) => {
+  const [form, setForm] = useState<MemberPreferences>(() => toForm(member));
+  const [allergenInput, setAllergenInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const toggleCuisine = (cuisine: string, list: 'favorite_cuisines' | 'disliked_cuisines') => {
+    const other = list === 'favorite_cuisines' ? 'disliked_cuisines' : 'favorite_cuisines';
+    setForm(prev => ({
+      ...prev,
+      [list]: prev[list].includes(cuisine) ? prev[list].filter(c => c !== cuisine) : [...prev[list], cuisine],
+      [other]: prev[other].filter(c => c !== cuisine),
+    }));
+  };
+
+  const addAllergen = () => {
+    const allergen = allergenInput.trim();
+    if (!allergen) return;
+
+    setForm(prev => ({
+      ...prev,
+      allergens: prev.allergens.some(a => a.toLowerCase() === allergen.toLowerCase())
+        ? prev.allergens
+        : [...prev.allergens, allergen],
+    }));
+    setAllergenInput('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateMemberPreferences(member.id, form);
+      await onSaved();
+      toast({
+        title: "Preferences Saved",
+        description: "The next group search will take them into account.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't Save Preferences",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCuisinePicker = (list: 'favorite_cuisines' | 'disliked_cuisines') => (
+    <div className="flex flex-wrap gap-2">
+      {CUISINE_OPTIONS.map(cuisine => (
+        <Badge
+          key={cuisine}
+          variant={form[list].includes(cuisine) ? (list === 'favorite_cuisines' ? 'default' : 'destructive') : 'outline'}
+          className="cursor-pointer hover:scale-105 transition-transform"
+          onClick={() => toggleCuisine(cuisine, list)}
+        >
+          {cuisine}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="member-name">Name</Label>
+        <Input
+          id="member-name"
+          value={form.display_name}
+          onChange={(e) => setForm(prev => ({ ...prev, display_name: e.target.value }))}
+          maxLength={40}
+        />
+      </div>
+
+      <div className="space-y-4">
+        {DIETARY_OPTIONS.map(({ key, label, description }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`member-${key}`}>{label}</Label>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <Switch
+              id={`member-${key}`}
+              checked={form[key]}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, [key]: checked }))}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="member-allergen">Allergens</Label>
+        <p className="text-sm text-muted-foreground">Places whose menu or reviews mention them are left out. The rest aren't checked for them, so ask the staff.</p>
+        <div className="flex gap-2">
+          <Input
+            id="member-allergen"
+            placeholder="e.g. peanuts (press Enter)"
+            value={allergenInput}
+            onChange={(e) => setAllergenInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addAllergen();
+              }
+            }}
+          />
+          <Button variant="outline" onClick={addAllergen} disabled={!allergenInput.trim()}>
+            Add
+          </Button>
+        </div>
+        {form.allergens.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {form.allergens.map(allergen => (
+              <Badge key={allergen} variant="secondary" className="gap-1">
+                {allergen}
+                <button
+                  type="button"
+                  onClick={() => setForm(prev => ({ ...prev, allergens: prev.allergens.filter(a => a !== allergen) }))}
+                  aria-label={`Remove ${allergen}`}
+                  className="hover:text-destructive"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label className="mb-2 block">Budget: {PRICE_LABELS[form.max_price - 1]}</Label>
+        <Slider
+          value={[form.max_price]}
+          onValueChange={([value]) => setForm(prev => ({ ...prev, max_price: value }))}
+          max={4}
+          min={1}
+          step={1}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Favorite cuisines</Label>
+        {renderCuisinePicker('favorite_cuisines')}
+      </div>
+      <div className="space-y-2">
+        <Label>Avoid</Label>
+        {renderCuisinePicker('disliked_cuisines')}
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving || !form.display_name.trim()} className="w-full">
+        {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+        Save my preferences
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Heart, History, LogIn, LogOut, SlidersHorizontal, Users } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+export const ProfileMenu: React.FC = () => {
+  const { user, isLoading, signOut } = useAuth();
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const { toast } = useToast();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <>
+        <Button variant="outline" size="sm" onClick={() => setIsAuthOpen(true)}>
+          <LogIn className="w-4 h-4" />
+          Sign in
+        </Button>
+        <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+      </>
+    );
+  }
+
+  const email = user.email ?? '';
+
+  const handleSignOut = async () => {
+    await signOut();
+    toast({
+      title: "Signed Out",
+      description: "Your searches are no longer saved to your account.",
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full" aria-label="Profile menu">
+          <Avatar className="h-9 w-9">
+            <AvatarFallback className="bg-primary text-primary-foreground">
+              {email.charAt(0).toUpperCase() || '?'}
+            </AvatarFallback>
+          </Avatar>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium">Signed in as</p>
+          <p className="text-xs text-muted-foreground truncate">{email}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/lists">
+            <Heart className="w-4 h-4 mr-2" />
+            My lists
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link to="/history">
+            <History className="w-4 h-4 mr-2" />
+            Search history
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link to="/preferences">
+            <SlidersHorizontal className="w-4 h-4 mr-2" />
+            Preferences
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link to="/groups">
+            <Users className="w-4 h-4 mr-2" />
+            Group dining
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleSignOut}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Loader2, Search as SearchIcon, Sparkles, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { applyParsedQuery, parseSearchQuery, type ParsedQuery } from '@/lib/parse-query';
+import type { SearchUrlState } from '@/lib/search-url';
+
+const PRICE_LABELS = ['Budget', 'Moderate', 'Upscale', 'Fine Dining'];
+
+interface FilterChipProps {
+  label: string;
+  onRemove: () => void;
+  children?: React.ReactNode;     // editor shown in a popover when the chip is clicked
+}
+
+const FilterChip: React.FC<FilterChipProps> = ({ label, onRemove, children }) => (
+  <Badge variant="secondary" className="gap-1 text-sm">
+    {children ? (
+      <Popover>
+        <PopoverTrigger asChild>
+          <button type="button" className="hover:underline">{label}</button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 space-y-2">{children}</PopoverContent>
+      </Popover>
+    ) : (
+      label
+    )}
+    <button type="button" onClick={onRemove} aria-label={`Remove ${label}`} className="hover:text-destructive">
+      <X className="w-3 h-3" />
+    </button>
+  </Badge>
+);
+
+interface QuerySearchProps {
+  base: SearchUrlState;           // the form's current search; parsed filters override it
+  onSearch: (search: SearchUrlState) => void;
+  isSearching: boolean;
+}
+
+// One free-text box instead of the individual filters. The parsed filters
+// are shown as chips to check and edit before anything is searched.
+export const QuerySearch: React.FC<QuerySearchProps> = ({ base, onSearch, isSearching }) => {
+  const [query, setQuery] = useState('');
+  const [parsed, setParsed] = useState<ParsedQuery | null>(null);
+  const [source, setSource] = useState<'llm' | 'rules'>('llm');
+  const [isParsing, setIsParsing] = useState(false);
+  const { toast } = useToast();
+
+  const handleParse = async () => {
+    if (!query.trim()) return;
+
+    setIsParsing(true);
+    try {
+      const result = await parseSearchQuery(query.trim());
+      setParsed(result.filters);
+      setSource(result.source);
+    } catch (error) {
+      toast({
+        title: "Couldn't Read That",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const update = (changes: Partial<ParsedQuery>) => setParsed(prev => ({ ...prev, ...changes }));
+
+  const remove = (key: keyof ParsedQuery) => setParsed(prev => {
+    const next = { ...prev };
+    delete next[key];
+    return next;
+  });
+
+  const removeFromList = (key: 'cuisine' | 'menu', value: string) => setParsed(prev => {
+    const rest = (prev?.[key] ?? []).filter(item => item !== value);
+    const next = { ...prev, [key]: rest };
+    if (rest.length === 0) delete next[key];
+    return next;
+  });
+
+  const renderChips = (filters: ParsedQuery) => (
+    <div className="flex flex-wrap gap-2">
+      {filters.location !== undefined && (
+        <FilterChip label={`📍 ${filters.location || 'Location'}`} onRemove={() => remove('location')}>
+          <Input
+            value={filters.location}
+            onChange={(e) => update({ location: e.target.value })}
+            aria-label="Location"
+          />
+        </FilterChip>
+      )}
+      {filters.max_price !== undefined && (
+        <FilterChip label={`💰 ${PRICE_LABELS[filters.max_price - 1]}`} onRemove={() => remove('max_price')}>
+          <p className="text-sm font-medium">Up to {PRICE_LABELS[filters.max_price - 1]}</p>
+          <Slider
+            value={[filters.max_price]}
+            onValueChange={([value]) => update({ max_price: value })}
+            max={4}
+            min={1}
+            step={1}
+          />
+        </FilterChip>
+      )}
+      {filters.max_distance_km !== undefined && (
+        <FilterChip label={`📏 Within ${filters.max_distance_km} km`} onRemove={() => remove('max_distance_km')}>
+          <p className="text-sm font-medium">Within {filters.max_distance_km} km</p>
+          <Slider
+            value={[filters.max_distance_km]}
+            onValueChange={([value]) => update({ max_distance_km: value })}
+            max={25}
+            min={1}
+            step={1}
+          />
+        </FilterChip>
+      )}
+      {filters.cuisine?.map(cuisine => (
+        <FilterChip key={`cuisine-${cuisine}`} label={cuisine} onRemove={() => removeFromList('cuisine', cuisine)} />
+      ))}
+      {filters.veg_only !== undefined && (
+        <FilterChip label={filters.veg_only ? '🥬 Vegetarian' : 'Non-veg OK'} onRemove={() => remove('veg_only')} />
+      )}
+      {filters.jain_food !== undefined && (
+        <FilterChip label={filters.jain_food ? 'Jain' : 'Jain not needed'} onRemove={() => remove('jain_food')} />
+      )}
+      {filters.menu?.map(dish => (
+        <FilterChip key={`dish-${dish}`} label={`🍽️ ${dish}`} onRemove={() => removeFromList('menu', dish)} />
+      ))}
+      {filters.open_now && (
+        <FilterChip label="Open now" onRemove={() => remove('open_now')} />
+      )}
+      {filters.open_at !== undefined && (
+        <FilterChip label={`🕙 Open at ${filters.open_at || '…'}`} onRemove={() => remove('open_at')}>
+          <Input
+            type="time"
+            value={filters.open_at}
+            onChange={(e) => update({ open_at: e.target.value })}
+            aria-label="Open at"
+          />
+        </FilterChip>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="shadow-warm border-0 bg-card/80 backdrop-blur-sm md:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-primary" />
+          Describe It
+        </CardTitle>
+        <CardDescription>Say what you want in your own words; anything you don't mention keeps the filters below.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-left">
+        <div className="flex gap-2">
+          <Input
+            placeholder="e.g. cheap Jain thali near Andheri open after 10pm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleParse();
+              }
+            }}
+            maxLength={300}
+            className="flex-1"
+          />
+          <Button variant="outline" onClick={handleParse} disabled={!query.trim() || isParsing}>
+            {isParsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Get filters
+          </Button>
+        </div>
+
+        {parsed && (
+          Object.keys(parsed).length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No filters found. Try mentioning a place, budget, cuisine, dish or opening time.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {renderChips(parsed)}
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <p className="text-xs text-muted-foreground">
+                  Click a chip to edit it{source === 'rules' && ' · read without AI, so check the result'}
+                </p>
+                <Button size="sm" onClick={() => onSearch(applyParsedQuery(base, parsed))} disabled={isSearching}>
+                  <SearchIcon className="w-4 h-4" />
+                  Search with these
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
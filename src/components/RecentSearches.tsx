@@ -0,0 +1,66 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { History } from 'lucide-react';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { describeFilters, getSearchUrl, type SearchHistoryEntry } from '@/lib/search-history';
+
+const MAX_RECENT = 5;
+
+interface RecentSearchesProps {
+  onSelect: (entry: SearchHistoryEntry) => void;
+}
+
+// Hidden while signed out or before the first search
+export const RecentSearches: React.FC<RecentSearchesProps> = ({ onSelect }) => {
+  const { entries } = useSearchHistory(20);
+
+  // Repeating a search shouldn't push everything else off the menu
+  const seen = new Set<string>();
+  const recent = entries.filter(entry => {
+    const url = getSearchUrl(entry);
+    if (seen.has(url)) return false;
+    seen.add(url);
+    return true;
+  }).slice(0, MAX_RECENT);
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" aria-label="Recent searches">
+          <History className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Recent searches</DropdownMenuLabel>
+        {recent.map(entry => {
+          const details = describeFilters(entry.filters);
+          return (
+            <DropdownMenuItem key={entry.id} onClick={() => onSelect(entry)} className="flex-col items-start gap-0">
+              <span className="font-medium truncate w-full">{entry.location}</span>
+              {details.length > 0 && (
+                <span className="text-xs text-muted-foreground truncate w-full">{details.join(' · ')}</span>
+              )}
+            </DropdownMenuItem>
+          );
+        })}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/history">View all history</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
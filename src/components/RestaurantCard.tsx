@@ -1,15 +1,27 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { Star, MapPin, DollarSign, Phone, Globe, ChevronDown, ChevronUp, Clock, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Star, MapPin, DollarSign, Phone, Globe, ChevronDown, ChevronUp, Clock, ThumbsUp, ThumbsDown, AlertCircle, Check, Leaf, UtensilsCrossed } from 'lucide-react';
+import { SaveButton } from '@/components/SaveButton';
+import { getOpenStatus, type OpeningHours, type OpenState } from '@/lib/opening-hours';
+import { formatDistance, formatTravelTime, type TravelTime } from '@/lib/distance';
+import { SCORE_COMPONENT_LABELS, type ScoreComponent } from '@/lib/score-components';
+import { cn } from '@/lib/utils';
 
-interface Restaurant {
+export type { ScoreComponent };
+
+export interface Restaurant {
   id: string;
   place_id: string;
   name: string;
   rating: number;
+  user_ratings_total?: number | null;
   price_level: number;
   formatted_address: string;
   location: { lat: number; lng: number };
@@ -17,24 +29,70 @@ interface Restaurant {
   phone_number?: string;
   website?: string;
   types?: string[];
+  opening_hours?: OpeningHours | null;
   ai_summary?: {
     rank_score: number;
     short_summary: string;
     pros: string[];
     cons: string[];
+    dishes_to_try?: string[];
+    cuisines?: string[];
+    matching_menu_items?: string[];
     top_positive_quote?: string;
     top_negative_quote?: string;
     confidence: number;
-    dishes_to_try?: string[];
   };
+  ai_summary_error?: string;
+  cuisine_match?: {
+    cuisines: string[];
+    explanation: string;
+  } | null;
+  taste_match?: {
+    value: number;
+    signals: string[];
+  } | null;
+  group_match?: {
+    value: number;
+    members: Array<{ name: string; value: number; signals: string[] }>;
+  } | null;
+  dietary?: {
+    veg_only: boolean;
+    veg_confidence: 'low' | 'medium' | 'high';
+    jain_food: boolean;
+    jain_confidence: 'low' | 'medium' | 'high';
+    signals: string[];
+  };
+  dietary_fit?: 'match' | 'unknown' | 'mismatch';
+  dish_matches?: Array<{
+    dish: string;
+    matched: string;
+    source: 'menu' | 'reviews' | 'known';
+    evidence?: string;
+  }>;
+  distance_meters?: number;
+  travel_time?: TravelTime;
+  score_breakdown?: ScoreComponent[];
+  total_score?: number;
 }
 
 interface RestaurantCardProps {
   restaurant: Restaurant;
+  highlighted?: boolean;                          // linked marker is hovered or selected on the map
+  onHoverChange?: (hovered: boolean) => void;
+  onSelect?: () => void;
+  compared?: boolean;                             // in the comparison drawer
+  compareDisabled?: boolean;                      // the drawer is full
+  onCompareChange?: (compared: boolean) => void;  // shows the Compare checkbox when set
 }
 
-export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) => {
+export const RestaurantCard: React.FC<RestaurantCardProps> = ({
+  restaurant, highlighted, onHoverChange, onSelect, compared = false, compareDisabled = false, onCompareChange,
+}) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
+  const openStatus = getOpenStatus(restaurant.opening_hours);
+  const isConfidentVeg = !!restaurant.dietary?.veg_only && restaurant.dietary.veg_confidence !== 'low';
+  const isConfidentJain = !!restaurant.dietary?.jain_food && restaurant.dietary.jain_confidence !== 'low';
 
   const getPriceDisplay = (level: number) => {
     return '$'.repeat(level || 1);
@@ -48,6 +106,12 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
     return 'text-red-500';
   };
 
+  const getOpenStateColor = (state: OpenState) => {
+    if (state === 'open') return 'text-green-600';
+    if (state === 'closing_soon') return 'text-amber-600';
+    return 'text-red-500';
+  };
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'bg-green-500';
     if (score >= 60) return 'bg-yellow-500';
@@ -69,7 +133,17 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
   };
 
   return (
-    <Card className="group hover:shadow-warm transition-all duration-300 hover:-translate-y-1 border-0 shadow-md overflow-hidden">
+    <Card
+      id={`restaurant-${restaurant.place_id}`}
+      className={cn(
+        "group hover:shadow-warm transition-all duration-300 hover:-translate-y-1 border-0 shadow-md overflow-hidden",
+        highlighted && "ring-2 ring-primary shadow-warm",
+        onSelect && "cursor-pointer"
+      )}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      onClick={onSelect}
+    >
       {/* Photo Header */}
       {restaurant.photos && restaurant.photos.length > 0 && (
         <div className="h-48 bg-gradient-to-br from-primary/10 to-primary/5 relative overflow-hidden">
@@ -90,10 +164,25 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
 
       <CardHeader className="pb-3">
         <div className="space-y-2">
-          <div className="flex items-start justify-between">
+          <div className="flex items-start justify-between gap-2">
             <CardTitle className="text-lg group-hover:text-primary transition-colors line-clamp-2">
-              {restaurant.name}
+              <Link
+                to={`/restaurant/${encodeURIComponent(restaurant.place_id)}`}
+                className="hover:underline"
+                onClick={(e) => e.stopPropagation()}
+              >
+                {restaurant.name}
+              </Link>
             </CardTitle>
+            <SaveButton
+              className="-mt-1 -mr-2"
+              place={{
+                place_id: restaurant.place_id,
+                name: restaurant.name,
+                formatted_address: restaurant.formatted_address,
+                photo: restaurant.photos?.[0] ?? null,
+              }}
+            />
           </div>
 
           {/* Rating and Price */}
@@ -103,6 +192,11 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
               <span className={`font-semibold ${getRatingColor(restaurant.rating)}`}>
                 {restaurant.rating?.toFixed(1) || 'N/A'}
               </span>
+              {restaurant.user_ratings_total ? (
+                <span className="text-xs text-muted-foreground">
+                  ({restaurant.user_ratings_total.toLocaleString()})
+                </span>
+              ) : null}
             </div>
             
             <div className="flex items-center gap-1">
@@ -111,6 +205,15 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
                 {getPriceDisplay(restaurant.price_level)}
               </span>
             </div>
+
+            {openStatus && (
+              <div className="flex items-center gap-1" title={restaurant.opening_hours?.weekday_text?.join('\n')}>
+                <Clock className={`w-4 h-4 ${getOpenStateColor(openStatus.state)}`} />
+                <span className={`text-sm font-medium ${getOpenStateColor(openStatus.state)}`}>
+                  {openStatus.label}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Cuisine Types */}
@@ -123,6 +226,44 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
               ))}
             </div>
           )}
+
+          {/* Dietary */}
+          {(isConfidentVeg || isConfidentJain) && (
+            <div className="flex flex-wrap gap-1">
+              {isConfidentVeg && (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-green-600 text-green-700 dark:text-green-400"
+                  title={restaurant.dietary.signals.join('; ')}
+                >
+                  <Leaf className="w-3 h-3 mr-1" />
+                  Pure Veg
+                </Badge>
+              )}
+              {isConfidentJain && (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-amber-600 text-amber-700 dark:text-amber-400"
+                  title={restaurant.dietary.signals.join('; ')}
+                >
+                  Jain-friendly
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {/* Matched Cuisine */}
+          {restaurant.cuisine_match && (
+            <div className="flex items-start gap-2">
+              <Badge variant="secondary" className="text-xs flex-shrink-0">
+                <Check className="w-3 h-3 mr-1" />
+                {restaurant.cuisine_match.cuisines.join(', ')}
+              </Badge>
+              <span className="text-xs text-muted-foreground line-clamp-2">
+                {restaurant.cuisine_match.explanation}
+              </span>
+            </div>
+          )}
         </div>
       </CardHeader>
 
@@ -141,19 +282,61 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
           </div>
         )}
 
+        {!restaurant.ai_summary && restaurant.ai_summary_error && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-muted/50 border border-dashed">
+            <AlertCircle className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">AI analysis unavailable</p>
+              <p className="text-xs text-muted-foreground line-clamp-2" title={restaurant.ai_summary_error}>
+                {restaurant.ai_summary_error}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Matched Dishes */}
+        {restaurant.dish_matches && restaurant.dish_matches.length > 0 && (
+          <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 space-y-2">
+            <div className="flex items-center gap-2">
+              <UtensilsCrossed className="w-4 h-4 text-amber-700 dark:text-amber-300" />
+              <span className="text-sm font-medium text-amber-800 dark:text-amber-200">Matches Your Cravings</span>
+            </div>
+            <ul className="space-y-1">
+              {restaurant.dish_matches.map((match) => (
+                <li key={match.dish} className="text-sm text-muted-foreground">
+                  <span className="font-medium text-foreground">{match.matched}</span>
+                  {match.source === 'menu' && ' · on the menu'}
+                  {match.source === 'known' && ' · previously matched'}
+                  {match.evidence && (
+                    <span className="block text-xs italic">"{match.evidence}"</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Location */}
         <div className="flex items-start gap-2">
           <MapPin className="w-4 h-4 text-muted-foreground mt-0.5 flex-shrink-0" />
-          <span className="text-sm text-muted-foreground line-clamp-2">
-            {restaurant.formatted_address}
-          </span>
+          <div className="text-sm text-muted-foreground">
+            {restaurant.distance_meters !== undefined && (
+              <p className="font-medium text-foreground">
+                {formatDistance(restaurant.distance_meters)} away
+                {restaurant.travel_time && (
+                  <span className="font-normal text-muted-foreground"> · {formatTravelTime(restaurant.travel_time)}</span>
+                )}
+              </p>
+            )}
+            <p className="line-clamp-2">{restaurant.formatted_address}</p>
+          </div>
         </div>
 
         {/* Expandable Details */}
-        {restaurant.ai_summary && (restaurant.ai_summary.pros.length > 0 || restaurant.ai_summary.cons.length > 0) && (
+        {restaurant.ai_summary && (restaurant.ai_summary.pros.length > 0 || restaurant.ai_summary.cons.length > 0 || restaurant.ai_summary.dishes_to_try?.length > 0) && (
           <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
             <CollapsibleTrigger asChild>
-              <Button variant="ghost" className="w-full justify-between p-0 h-auto">
+              <Button variant="ghost" className="w-full justify-between p-0 h-auto" onClick={(e) => e.stopPropagation()}>
                 <span className="text-sm font-medium">AI Analysis Details</span>
                 {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
               </Button>
@@ -225,8 +408,56 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
           </Collapsible>
         )}
 
+        {/* Score Breakdown */}
+        {restaurant.score_breakdown && restaurant.score_breakdown.length > 0 && (
+          <Collapsible open={showScoreBreakdown} onOpenChange={setShowScoreBreakdown}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" className="w-full justify-between p-0 h-auto" onClick={(e) => e.stopPropagation()}>
+                <span className="text-sm font-medium">Why this rank?</span>
+                {showScoreBreakdown ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+              </Button>
+            </CollapsibleTrigger>
+
+            <CollapsibleContent className="space-y-2 mt-3">
+              {restaurant.score_breakdown.map((component) => (
+                <div key={component.key} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {SCORE_COMPONENT_LABELS[component.key]}
+                      <span className="text-xs"> · weight {component.weight}</span>
+                    </span>
+                    <span className={cn("font-medium", component.points < 0 && "text-red-600")}>
+                      {component.points > 0 ? '+' : ''}{component.points.toFixed(1)}
+                    </span>
+                  </div>
+                  <Progress value={component.value * 100} className="h-1.5" />
+                  {component.key === 'taste' && restaurant.taste_match && (
+                    <ul className="text-xs text-muted-foreground">
+                      {restaurant.taste_match.signals.map(signal => <li key={signal}>• {signal}</li>)}
+                    </ul>
+                  )}
+                  {component.key === 'group' && restaurant.group_match && (
+                    <ul className="text-xs text-muted-foreground">
+                      {restaurant.group_match.members.map((member, index) => (
+                        <li key={index}>
+                          • {member.name}: {Math.round(member.value * 100)}%
+                          {member.signals.length > 0 && ` (${member.signals.join('; ')})`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-between text-sm font-semibold border-t pt-2">
+                <span>Total score</span>
+                <span>{restaurant.total_score}</span>
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
         {/* Action Buttons */}
-        <div className="flex gap-2 pt-2">
+        <div className="flex gap-2 pt-2" onClick={(e) => e.stopPropagation()}>
           {restaurant.phone_number && (
             <Button variant="outline" size="sm" className="flex-1" asChild>
               <a href={`tel:${restaurant.phone_number}`}>
@@ -256,6 +487,21 @@ export const RestaurantCard: React.FC<RestaurantCardProps> = ({ restaurant }) =>
             </a>
           </Button>
         </div>
+
+        {/* Compare */}
+        {onCompareChange && (
+          <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+            <Checkbox
+              id={`compare-${restaurant.place_id}`}
+              checked={compared}
+              disabled={compareDisabled && !compared}
+              onCheckedChange={(checked) => onCompareChange(checked === true)}
+            />
+            <Label htmlFor={`compare-${restaurant.place_id}`} className="text-sm text-muted-foreground cursor-pointer">
+              Compare
+            </Label>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
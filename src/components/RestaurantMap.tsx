@@ -0,0 +1,131 @@
+import React, { useEffect } from 'react';
+import { MapContainer, TileLayer, Circle, CircleMarker, Tooltip, useMap } from 'react-leaflet';
+import { latLng } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+// Tiles come from OpenStreetMap unless VITE_MAP_TILE_URL points elsewhere,
+// e.g. a local tile server at http://localhost:8080/tile/{z}/{x}/{y}.png
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+interface MapRestaurant {
+  place_id: string;
+  name: string;
+  rating: number;
+  location: { lat: number; lng: number };
+  total_score?: number;
+}
+
+interface RestaurantMapProps {
+  restaurants: MapRestaurant[];
+  center: { lat: number; lng: number };
+  radiusMeters: number;
+  hoveredPlaceId: string | null;
+  selectedPlaceId: string | null;
+  onHoverChange: (placeId: string | null) => void;
+  onSelect: (placeId: string) => void;
+}
+
+// Same bands and Tailwind colors as the AI score badge on RestaurantCard
+const getScoreColor = (score?: number) => {
+  if (score === undefined) return '#9ca3af';   // gray-400
+  if (score >= 80) return '#22c55e';           // green-500
+  if (score >= 60) return '#eab308';           // yellow-500
+  if (score >= 40) return '#f97316';           // orange-500
+  return '#ef4444';                            // red-500
+};
+
+// Fits the search radius when results change and pans to the selected place
+const MapViewport = ({ center, radiusMeters, selectedLocation }: {
+  center: { lat: number; lng: number };
+  radiusMeters: number;
+  selectedLocation?: { lat: number; lng: number };
+}) => {
+  const map = useMap();
+  const selectedLat = selectedLocation?.lat;
+  const selectedLng = selectedLocation?.lng;
+
+  useEffect(() => {
+    map.fitBounds(latLng(center).toBounds(radiusMeters * 2));
+  }, [map, center, radiusMeters]);
+
+  useEffect(() => {
+    if (selectedLat !== undefined && selectedLng !== undefined) {
+      map.panTo([selectedLat, selectedLng]);
+    }
+  }, [map, selectedLat, selectedLng]);
+
+  return null;
+};
+
+export const RestaurantMap: React.FC<RestaurantMapProps> = ({
+  restaurants,
+  center,
+  radiusMeters,
+  hoveredPlaceId,
+  selectedPlaceId,
+  onHoverChange,
+  onSelect,
+}) => {
+  const selectedLocation = restaurants.find(r => r.place_id === selectedPlaceId)?.location;
+
+  return (
+    <MapContainer center={center} zoom={13} scrollWheelZoom className="h-full w-full rounded-lg z-0">
+      <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+      <MapViewport center={center} radiusMeters={radiusMeters} selectedLocation={selectedLocation} />
+
+      <Circle
+        center={center}
+        radius={radiusMeters}
+        pathOptions={{ color: '#ff6600', weight: 1, fillOpacity: 0.05 }}   // --primary
+      />
+
+      {restaurants.map((restaurant) => {
+        const isActive = restaurant.place_id === hoveredPlaceId || restaurant.place_id === selectedPlaceId;
+        const color = getScoreColor(restaurant.total_score);
+
+        return (
+          <CircleMarker
+            key={restaurant.place_id}
+            center={restaurant.location}
+            radius={isActive ? 12 : 8}
+            pathOptions={{ color: isActive ? '#111827' : color, weight: isActive ? 3 : 1, fillColor: color, fillOpacity: 0.85 }}
+            eventHandlers={{
+              mouseover: () => onHoverChange(restaurant.place_id),
+              mouseout: () => onHoverChange(null),
+              click: () => onSelect(restaurant.place_id),
+            }}
+          >
+            <Tooltip direction="top" offset={[0, -8]}>
+              <span className="font-medium">{restaurant.name}</span>
+              {restaurant.total_score !== undefined && ` · ${Math.round(restaurant.total_score)}`}
+              {restaurant.rating ? ` · ★ ${restaurant.rating}` : ''}
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </MapContainer>
+  );
+};
+
+interface PlaceMapProps {
+  name: string;
+  location: { lat: number; lng: number };
+}
+
+// Single-place map for the restaurant detail page
+export const PlaceMap: React.FC<PlaceMapProps> = ({ name, location }) => (
+  <MapContainer center={location} zoom={16} scrollWheelZoom={false} className="h-full w-full rounded-lg z-0">
+    <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+    <CircleMarker
+      center={location}
+      radius={10}
+      pathOptions={{ color: '#ff6600', weight: 2, fillColor: '#ff6600', fillOpacity: 0.85 }}   // --primary
+    >
+      <Tooltip direction="top" offset={[0, -8]} permanent>
+        <span className="font-medium">{name}</span>
+      </Tooltip>
+    </CircleMarker>
+  </MapContainer>
+);
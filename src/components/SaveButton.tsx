@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Heart, Loader2, Plus } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { useAuth } from '@/hooks/use-auth';
+import { useLists } from '@/hooks/use-lists';
+import { useToast } from '@/hooks/use-toast';
+import { addToList, createList, removeFromList, type SavedPlace } from '@/lib/lists';
+import { cn } from '@/lib/utils';
+
+interface SaveButtonProps {
+  place: SavedPlace;
+  className?: string;
+}
+
+export const SaveButton: React.FC<SaveButtonProps> = ({ place, className }) => {
+  const { user } = useAuth();
+  const { lists, isLoading, refresh } = useLists();
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [pendingListId, setPendingListId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const savedIn = lists.filter(list => list.items.some(item => item.place_id === place.place_id));
+  const isSaved = savedIn.length > 0;
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Couldn't Update List",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const handleToggle = async (listId: string, save: boolean) => {
+    setPendingListId(listId);
+    try {
+      if (save) {
+        await addToList(listId, place);
+      } else {
+        await removeFromList(listId, place.place_id);
+      }
+      await refresh();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setPendingListId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+
+    setPendingListId('new');
+    try {
+      const list = await createList(newListName);
+      await addToList(list.id, place);
+      await refresh();
+      setNewListName('');
+      toast({
+        title: "Saved",
+        description: `${place.name} was added to ${list.name}.`,
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setPendingListId(null);
+    }
+  };
+
+  const trigger = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={cn("flex-shrink-0", className)}
+      aria-label={isSaved ? `Saved to ${savedIn.map(list => list.name).join(', ')}` : 'Save to a list'}
+      onClick={user ? undefined : () => setIsAuthOpen(true)}
+    >
+      <Heart className={cn("w-5 h-5", isSaved && "fill-current text-red-500")} />
+    </Button>
+  );
+
+  // Cards are clickable, so keep clicks on the button and its popover (which
+  // bubble through the React tree despite the portal) from selecting them
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      {user ? (
+        <Popover>
+          <PopoverTrigger asChild>{trigger}</PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <p className="text-sm font-medium">Save to list</p>
+            {isLoading ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" /> Loading lists...
+              </p>
+            ) : lists.length > 0 ? (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {lists.map(list => {
+                  const checked = savedIn.includes(list);
+                  return (
+                    <label key={list.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={checked}
+                        disabled={pendingListId !== null}
+                        onCheckedChange={() => handleToggle(list.id, !checked)}
+                      />
+                      <span className="truncate flex-1">{list.name}</span>
+                      {pendingListId === list.id && <Loader2 className="w-3 h-3 animate-spin" />}
+                    </label>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No lists yet. Create one below.</p>
+            )}
+            <form onSubmit={handleCreate} className="flex gap-2">
+              <Input
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                placeholder={lists.length > 0 ? 'New list' : 'e.g. Date night'}
+                maxLength={80}
+                className="h-8"
+              />
+              <Button type="submit" size="sm" className="h-8" disabled={!newListName.trim() || pendingListId !== null}>
+                {pendingListId === 'new' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+              </Button>
+            </form>
+            <Link to="/lists" className="block text-xs text-primary hover:underline">
+              Manage lists
+            </Link>
+          </PopoverContent>
+        </Popover>
+      ) : (
+        <>
+          {trigger}
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </>
+      )}
+    </div>
+  );
+};
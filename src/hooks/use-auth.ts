@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  isLoading: boolean;           // true until the stored session has been read
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export const useAuth = (): AuthState => {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return auth;
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchGroupSession, fetchGroupSessions } from '@/lib/groups';
+
+const GROUP_SESSIONS_QUERY_KEY = 'group-sessions';
+const GROUP_SESSION_QUERY_KEY = 'group-session';
+
+// Group sessions the signed-in user hosts or has joined; empty while signed out
+export const useGroupSessions = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: [GROUP_SESSIONS_QUERY_KEY, user?.id],
+    queryFn: fetchGroupSessions,
+    enabled: !!user,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [GROUP_SESSIONS_QUERY_KEY] }),
+    [queryClient]
+  );
+
+  return {
+    sessions: data ?? [],
+    isLoading: !!user && isLoading,
+    error: error as Error | null,
+    refresh,
+  };
+};
+
+// One session with its members and votes, refetched whenever anyone in the
+// group changes something so the page stays live
+export const useGroupSession = (sessionId: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: [GROUP_SESSION_QUERY_KEY, sessionId, user?.id],
+    queryFn: () => fetchGroupSession(sessionId),
+    enabled: !!user && !!sessionId,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [GROUP_SESSION_QUERY_KEY, sessionId] }),
+    [queryClient, sessionId]
+  );
+
+  useEffect(() => {
+    if (!user || !sessionId) return;
+
+    const sessionFilter = `session_id=eq.${sessionId}`;
+    const channel = supabase
+      .channel(`group-session-${sessionId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'group_sessions', filter: `id=eq.${sessionId}` }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'group_members', filter: sessionFilter }, refresh)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'group_votes', filter: sessionFilter }, refresh)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, sessionId, refresh]);
+
+  return {
+    session: data ?? null,
+    isLoading: !!user && isLoading,
+    error: error as Error | null,
+    refresh,
+  };
+};
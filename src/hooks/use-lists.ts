@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { fetchLists } from '@/lib/lists';
+
+const LISTS_QUERY_KEY = 'restaurant-lists';
+
+// The signed-in user's saved lists; empty while signed out
+export const useLists = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: [LISTS_QUERY_KEY, user?.id],
+    queryFn: fetchLists,
+    enabled: !!user,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [LISTS_QUERY_KEY] }),
+    [queryClient]
+  );
+
+  return {
+    lists: data ?? [],
+    isLoading: !!user && isLoading,
+    error: error as Error | null,
+    refresh,
+  };
+};
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { fetchPreferences } from '@/lib/preferences';
+
+const PREFERENCES_QUERY_KEY = 'user-preferences';
+
+// The signed-in user's saved profile; null while signed out or never saved
+export const usePreferences = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: [PREFERENCES_QUERY_KEY, user?.id],
+    queryFn: fetchPreferences,
+    enabled: !!user,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [PREFERENCES_QUERY_KEY] }),
+    [queryClient]
+  );
+
+  return {
+    preferences: data ?? null,
+    isLoading: !!user && isLoading,
+    error: error as Error | null,
+    refresh,
+  };
+};
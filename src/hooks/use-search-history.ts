@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/use-auth';
+import { fetchSearchHistory } from '@/lib/search-history';
+
+const SEARCH_HISTORY_QUERY_KEY = 'search-history';
+
+// The signed-in user's most recent searches; empty while signed out
+export const useSearchHistory = (limit: number) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data, isLoading, error } = useQuery({
+    queryKey: [SEARCH_HISTORY_QUERY_KEY, user?.id, limit],
+    queryFn: () => fetchSearchHistory(limit),
+    enabled: !!user,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [SEARCH_HISTORY_QUERY_KEY] }),
+    [queryClient]
+  );
+
+  return {
+    entries: data ?? [],
+    isLoading: !!user && isLoading,
+    error: error as Error | null,
+    refresh,
+  };
+};
@@ -14,14 +14,226 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          title: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          title: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          title?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      agent_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          position: number
+          restaurants: Json | null
+          role: string
+          tool_call_id: string | null
+          tool_calls: Json | null
+          tool_name: string | null
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          position: number
+          restaurants?: Json | null
+          role: string
+          tool_call_id?: string | null
+          tool_calls?: Json | null
+          tool_name?: string | null
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          restaurants?: Json | null
+          role?: string
+          tool_call_id?: string | null
+          tool_calls?: Json | null
+          tool_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "agent_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_members: {
+        Row: {
+          allergens: string[]
+          created_at: string
+          disliked_cuisines: string[]
+          display_name: string
+          favorite_cuisines: string[]
+          gluten_free: boolean
+          halal: boolean
+          id: string
+          jain_food: boolean
+          max_price: number
+          session_id: string
+          updated_at: string
+          user_id: string
+          veg_only: boolean
+          vegan: boolean
+        }
+        Insert: {
+          allergens?: string[]
+          created_at?: string
+          disliked_cuisines?: string[]
+          display_name: string
+          favorite_cuisines?: string[]
+          gluten_free?: boolean
+          halal?: boolean
+          id?: string
+          jain_food?: boolean
+          max_price?: number
+          session_id: string
+          updated_at?: string
+          user_id?: string
+          veg_only?: boolean
+          vegan?: boolean
+        }
+        Update: {
+          allergens?: string[]
+          created_at?: string
+          disliked_cuisines?: string[]
+          display_name?: string
+          favorite_cuisines?: string[]
+          gluten_free?: boolean
+          halal?: boolean
+          id?: string
+          jain_food?: boolean
+          max_price?: number
+          session_id?: string
+          updated_at?: string
+          user_id?: string
+          veg_only?: boolean
+          vegan?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_members_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_sessions: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          join_token: string
+          location: string
+          name: string
+          results: Json | null
+          searched_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          join_token?: string
+          location?: string
+          name: string
+          results?: Json | null
+          searched_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          join_token?: string
+          location?: string
+          name?: string
+          results?: Json | null
+          searched_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      group_votes: {
+        Row: {
+          created_at: string
+          id: string
+          member_id: string
+          place_id: string
+          session_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_id: string
+          place_id: string
+          session_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_id?: string
+          place_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_votes_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "group_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_votes_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_ai_summaries: {
         Row: {
           confidence: number | null
           cons: string[]
           created_at: string
+          cuisines: string[]
+          dishes_to_try: string[]
           generated_at: string
           id: string
+          matching_menu_items: string[]
           place_id: string
+          preferences_key: string
           pros: string[]
           rank_score: number
           short_summary: string
@@ -33,9 +245,13 @@ export type Database = {
           confidence?: number | null
           cons: string[]
           created_at?: string
+          cuisines?: string[]
+          dishes_to_try?: string[]
           generated_at?: string
           id?: string
+          matching_menu_items?: string[]
           place_id: string
+          preferences_key?: string
           pros: string[]
           rank_score: number
           short_summary: string
@@ -47,9 +263,13 @@ export type Database = {
           confidence?: number | null
           cons?: string[]
           created_at?: string
+          cuisines?: string[]
+          dishes_to_try?: string[]
           generated_at?: string
           id?: string
+          matching_menu_items?: string[]
           place_id?: string
+          preferences_key?: string
           pros?: string[]
           rank_score?: number
           short_summary?: string
@@ -59,13 +279,85 @@ export type Database = {
         }
         Relationships: []
       }
+      restaurant_list_items: {
+        Row: {
+          created_at: string
+          formatted_address: string | null
+          id: string
+          list_id: string
+          name: string
+          photo: string | null
+          place_id: string
+        }
+        Insert: {
+          created_at?: string
+          formatted_address?: string | null
+          id?: string
+          list_id: string
+          name: string
+          photo?: string | null
+          place_id: string
+        }
+        Update: {
+          created_at?: string
+          formatted_address?: string | null
+          id?: string
+          list_id?: string
+          name?: string
+          photo?: string | null
+          place_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_list_items_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "restaurant_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      restaurant_lists: {
+        Row: {
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          share_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          share_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          share_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       restaurants: {
         Row: {
           cached_at: string
           created_at: string
+          dietary_signals: string[]
           formatted_address: string | null
           id: string
+          jain_confidence: string | null
+          jain_food: boolean | null
           location: Json | null
+          menu: Json | null
           name: string
           opening_hours: Json | null
           phone_number: string | null
@@ -76,14 +368,21 @@ export type Database = {
           reviews: Json | null
           types: string[] | null
           updated_at: string
+          user_ratings_total: number | null
+          veg_confidence: string | null
+          veg_only: boolean | null
           website: string | null
         }
         Insert: {
           cached_at?: string
           created_at?: string
+          dietary_signals?: string[]
           formatted_address?: string | null
           id?: string
+          jain_confidence?: string | null
+          jain_food?: boolean | null
           location?: Json | null
+          menu?: Json | null
           name: string
           opening_hours?: Json | null
           phone_number?: string | null
@@ -94,14 +393,21 @@ export type Database = {
           reviews?: Json | null
           types?: string[] | null
           updated_at?: string
+          user_ratings_total?: number | null
+          veg_confidence?: string | null
+          veg_only?: boolean | null
           website?: string | null
         }
         Update: {
           cached_at?: string
           created_at?: string
+          dietary_signals?: string[]
           formatted_address?: string | null
           id?: string
+          jain_confidence?: string | null
+          jain_food?: boolean | null
           location?: Json | null
+          menu?: Json | null
           name?: string
           opening_hours?: Json | null
           phone_number?: string | null
@@ -112,10 +418,61 @@ export type Database = {
           reviews?: Json | null
           types?: string[] | null
           updated_at?: string
+          user_ratings_total?: number | null
+          veg_confidence?: string | null
+          veg_only?: boolean | null
           website?: string | null
         }
         Relationships: []
       }
+      user_preferences: {
+        Row: {
+          allergens: string[]
+          created_at: string
+          default_radius_km: number
+          disliked_cuisines: string[]
+          favorite_cuisines: string[]
+          gluten_free: boolean
+          halal: boolean
+          jain_food: boolean
+          max_price: number
+          updated_at: string
+          user_id: string
+          veg_only: boolean
+          vegan: boolean
+        }
+        Insert: {
+          allergens?: string[]
+          created_at?: string
+          default_radius_km?: number
+          disliked_cuisines?: string[]
+          favorite_cuisines?: string[]
+          gluten_free?: boolean
+          halal?: boolean
+          jain_food?: boolean
+          max_price?: number
+          updated_at?: string
+          user_id?: string
+          veg_only?: boolean
+          vegan?: boolean
+        }
+        Update: {
+          allergens?: string[]
+          created_at?: string
+          default_radius_km?: number
+          disliked_cuisines?: string[]
+          favorite_cuisines?: string[]
+          gluten_free?: boolean
+          halal?: boolean
+          jain_food?: boolean
+          max_price?: number
+          updated_at?: string
+          user_id?: string
+          veg_only?: boolean
+          vegan?: boolean
+        }
+        Relationships: []
+      }
       user_searches: {
         Row: {
           created_at: string
@@ -123,6 +480,7 @@ export type Database = {
           id: string
           results_count: number | null
           search_location: Json
+          user_id: string | null
         }
         Insert: {
           created_at?: string
@@ -130,6 +488,7 @@ export type Database = {
           id?: string
           results_count?: number | null
           search_location: Json
+          user_id?: string | null
         }
         Update: {
           created_at?: string
@@ -137,6 +496,7 @@ export type Database = {
           id?: string
           results_count?: number | null
           search_location?: Json
+          user_id?: string | null
         }
         Relationships: []
       }
@@ -149,6 +509,22 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      get_group_invite: {
+        Args: { session_join_token: string }
+        Returns: Json
+      }
+      get_shared_list: {
+        Args: { list_share_token: string }
+        Returns: Json
+      }
+      is_group_member: {
+        Args: { group_session_id: string }
+        Returns: boolean
+      }
+      join_group_session: {
+        Args: { member_name: string; session_join_token: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
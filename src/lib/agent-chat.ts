@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Restaurant } from '@/components/RestaurantCard';
+import type { TasteProfile } from '@/lib/preferences';
+
+// Mirrors Citation in the chat-agent function's agent.ts
+export interface Citation {
+  n: number;                  // the [#n] marker used in the reply
+  restaurant: Restaurant;
+}
+
+export interface AgentMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  citations: Citation[];
+}
+
+export interface AgentReply {
+  conversation_id: string;
+  reply: string;
+  citations: Citation[];
+  search: Record<string, unknown> | null;
+}
+
+interface AgentContext {
+  profile?: TasteProfile;
+  default_location?: string;
+}
+
+const invokeAgent = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('chat-agent', { body });
+
+  if (error) {
+    // The function's JSON error body is more useful than the generic message
+    const errorBody = await error.context?.json?.().catch(() => null);
+    throw new Error(errorBody?.error || error.message);
+  }
+
+  return data as T;
+};
+
+// Starts a conversation when conversationId is null
+export const sendAgentMessage = (
+  conversationId: string | null,
+  message: string,
+  context: AgentContext = {},
+): Promise<AgentReply> =>
+  invokeAgent<AgentReply>({ conversation_id: conversationId ?? undefined, message, ...context });
+
+export const fetchConversation = async (conversationId: string): Promise<AgentMessage[]> => {
+  const { messages } = await invokeAgent<{ messages: AgentMessage[] }>({ conversation_id: conversationId });
+  return messages;
+};
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Restaurant } from '@/components/RestaurantCard';
+
+// Matches MIN_COMPARED / MAX_COMPARED in the compare-restaurants function
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+
+// A picked place and the point of the search it came from, which its
+// distance_meters is measured from
+export interface ComparedRestaurant extends Restaurant {
+  search_origin: { lat: number; lng: number } | null;
+}
+
+// Distances are only comparable when every place came from the same search point
+export const hasSharedOrigin = (restaurants: ComparedRestaurant[]) =>
+  restaurants.every(({ search_origin: origin }) =>
+    origin && origin.lat === restaurants[0].search_origin?.lat && origin.lng === restaurants[0].search_origin?.lng);
+
+export interface Verdict {
+  pick_place_id: string | null;
+  verdict: string;
+  notes: Array<{ place_id: string; note: string }>;
+}
+
+export const fetchVerdict = async (placeIds: string[], occasion: string): Promise<Verdict> => {
+  const { data, error } = await supabase.functions.invoke('compare-restaurants', {
+    body: { place_ids: placeIds, occasion },
+  });
+
+  if (error) {
+    // The function's JSON error body is more useful than the generic message
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+
+  return data as Verdict;
+};
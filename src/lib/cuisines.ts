@@ -0,0 +1,6 @@
+// Offered on the search and preferences pages; search-restaurants' cuisine.ts
+// knows how to match each of these
+export const CUISINE_OPTIONS = [
+  'Italian', 'Mexican', 'Chinese', 'Japanese', 'Indian', 'Thai', 'American', 
+  'French', 'Mediterranean', 'Korean', 'Vietnamese', 'Greek', 'Spanish'
+];
@@ -0,0 +1,16 @@
+// Rough travel times returned by search-restaurants alongside distance_meters
+export interface TravelTime {
+  walking_minutes: number;
+  driving_minutes: number;
+}
+
+// Beyond this, walking times stop being useful and driving is shown instead
+const MAX_WALKING_MINUTES = 25;
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export const formatTravelTime = ({ walking_minutes, driving_minutes }: TravelTime) =>
+  walking_minutes <= MAX_WALKING_MINUTES
+    ? `~${walking_minutes} min walk`
+    : `~${driving_minutes} min drive`;
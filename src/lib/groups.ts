@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { Restaurant } from '@/components/RestaurantCard';
+import type { UserPreferences } from '@/lib/preferences';
+
+// Mirrors MAX_GROUP_MEMBERS in search-restaurants' group.ts
+export const MAX_GROUP_MEMBERS = 12;
+
+export type GroupMember = Tables<'group_members'>;
+export type GroupVote = Tables<'group_votes'>;
+
+export interface GroupSession extends Omit<Tables<'group_sessions'>, 'results'> {
+  results: Restaurant[] | null;
+}
+
+export interface GroupSessionDetails extends GroupSession {
+  members: GroupMember[];
+  votes: GroupVote[];
+}
+
+// What a member can change about themselves
+export type MemberPreferences = Pick<
+  GroupMember,
+  'display_name' | 'veg_only' | 'jain_food' | 'vegan' | 'halal' | 'gluten_free' | 'allergens'
+  | 'max_price' | 'favorite_cuisines' | 'disliked_cuisines'
+>;
+
+export interface GroupInvite {
+  session_id: string;
+  name: string;
+  location: string;
+  member_count: number;
+  is_member: boolean;
+}
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }): T => {
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+};
+
+const toSession = ({ results, ...session }: Tables<'group_sessions'>): GroupSession => ({
+  ...session,
+  results: results as unknown as Restaurant[] | null,
+});
+
+// Sessions the signed-in user hosts or has joined, newest first
+export const fetchGroupSessions = async (): Promise<GroupSession[]> => {
+  const rows = check(await supabase.from('group_sessions').select('*').order('created_at', { ascending: false }));
+  return rows.map(toSession);
+};
+
+// Null when the session doesn't exist or the user isn't in it
+export const fetchGroupSession = async (sessionId: string): Promise<GroupSessionDetails | null> => {
+  const row = check(await supabase
+    .from('group_sessions')
+    .select('*, group_members(*), group_votes(*)')
+    .eq('id', sessionId)
+    .order('created_at', { ascending: true, referencedTable: 'group_members' })
+    .maybeSingle());
+
+  if (!row) {
+    return null;
+  }
+
+  const { group_members, group_votes, ...session } = row;
+  return { ...toSession(session), members: group_members, votes: group_votes };
+};
+
+// The host joins their own session like everyone else, so they get a
+// member row for their preferences and votes. Returns the session id.
+export const createGroupSession = async (name: string, displayName: string): Promise<string> => {
+  const session = check(await supabase
+    .from('group_sessions')
+    .insert({ name: name.trim() })
+    .select('join_token')
+    .single());
+
+  return joinGroupSession(session.join_token, displayName);
+};
+
+export const deleteGroupSession = async (sessionId: string): Promise<void> => {
+  check(await supabase.from('group_sessions').delete().eq('id', sessionId));
+};
+
+// Null when the invite link is unknown
+export const fetchGroupInvite = async (joinToken: string): Promise<GroupInvite | null> => {
+  const data = check(await supabase.rpc('get_group_invite', { session_join_token: joinToken }));
+  return data as unknown as GroupInvite | null;
+};
+
+// Returns the session id; joining twice keeps the existing member.
+// `preferences` (e.g. the saved profile) fills in a new member row only, so
+// rejoining never overwrites what the member has since edited.
+export const joinGroupSession = async (
+  joinToken: string,
+  displayName: string,
+  preferences?: Omit<MemberPreferences, 'display_name'>,
+): Promise<string> => {
+  const wasMember = preferences ? (await fetchGroupInvite(joinToken))?.is_member : true;
+
+  const sessionId = check(await supabase.rpc('join_group_session', {
+    session_join_token: joinToken,
+    member_name: displayName.trim(),
+  }));
+
+  if (preferences && !wasMember) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) {
+      check(await supabase
+        .from('group_members')
+        .update(preferences)
+        .eq('session_id', sessionId)
+        .eq('user_id', session.user.id));
+    }
+  }
+
+  return sessionId;
+};
+
+export const leaveGroupSession = async (memberId: string): Promise<void> => {
+  check(await supabase.from('group_members').delete().eq('id', memberId));
+};
+
+export const updateMemberPreferences = async (memberId: string, preferences: MemberPreferences): Promise<void> => {
+  check(await supabase
+    .from('group_members')
+    .update({ ...preferences, display_name: preferences.display_name.trim() })
+    .eq('id', memberId));
+};
+
+export const setGroupLocation = async (sessionId: string, location: string): Promise<void> => {
+  check(await supabase.from('group_sessions').update({ location: location.trim() }).eq('id', sessionId));
+};
+
+// Votes are kept by place, so places found again by a new search keep theirs
+export const saveGroupResults = async (sessionId: string, results: Restaurant[]): Promise<void> => {
+  check(await supabase
+    .from('group_sessions')
+    .update({ results: results as unknown as Json, searched_at: new Date().toISOString() })
+    .eq('id', sessionId));
+};
+
+export const setVote = async (member: GroupMember, placeId: string, voted: boolean): Promise<void> => {
+  if (voted) {
+    check(await supabase
+      .from('group_votes')
+      .upsert(
+        { session_id: member.session_id, member_id: member.id, place_id: placeId },
+        { onConflict: 'member_id,place_id', ignoreDuplicates: true }
+      ));
+  } else {
+    check(await supabase.from('group_votes').delete().eq('member_id', member.id).eq('place_id', placeId));
+  }
+};
+
+// A saved profile as a member's starting preferences
+export const toMemberPreferences = ({
+  veg_only, jain_food, vegan, halal, gluten_free, allergens, max_price, favorite_cuisines, disliked_cuisines,
+}: UserPreferences): Omit<MemberPreferences, 'display_name'> =>
+  ({ veg_only, jain_food, vegan, halal, gluten_free, allergens, max_price, favorite_cuisines, disliked_cuisines });
+
+// The `group` param of search-restaurants; mirrors GroupMember in group.ts
+export const toGroupSearchMember = (member: GroupMember) => ({
+  name: member.display_name,
+  veg_only: member.veg_only,
+  jain_food: member.jain_food,
+  max_price: member.max_price,
+  vegan: member.vegan,
+  halal: member.halal,
+  gluten_free: member.gluten_free,
+  allergens: member.allergens,
+  favorite_cuisines: member.favorite_cuisines,
+  disliked_cuisines: member.disliked_cuisines,
+});
+
+export const getInviteUrl = (session: Pick<GroupSession, 'join_token'>) =>
+  `${window.location.origin}/groups/join/${session.join_token}`;
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ListItem = Tables<'restaurant_list_items'>;
+
+export interface RestaurantList extends Tables<'restaurant_lists'> {
+  items: ListItem[];
+}
+
+// What a list keeps about a place, since cached restaurant rows expire
+export type SavedPlace = Pick<ListItem, 'place_id' | 'name' | 'formatted_address' | 'photo'>;
+
+export interface SharedList {
+  name: string;
+  updated_at: string;
+  items: SavedPlace[];
+}
+
+const check = <T>({ data, error }: { data: T; error: { message: string } | null }): T => {
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+};
+
+// Lists of the signed-in user, oldest first so new lists go to the bottom
+export const fetchLists = async (): Promise<RestaurantList[]> => {
+  const rows = check(await supabase
+    .from('restaurant_lists')
+    .select('*, restaurant_list_items(*)')
+    .order('created_at', { ascending: true })
+    .order('created_at', { ascending: true, referencedTable: 'restaurant_list_items' }));
+
+  return rows.map(({ restaurant_list_items, ...list }) => ({ ...list, items: restaurant_list_items }));
+};
+
+export const createList = async (name: string): Promise<Tables<'restaurant_lists'>> =>
+  check(await supabase.from('restaurant_lists').insert({ name: name.trim() }).select().single());
+
+export const renameList = async (listId: string, name: string): Promise<void> => {
+  check(await supabase.from('restaurant_lists').update({ name: name.trim() }).eq('id', listId));
+};
+
+export const deleteList = async (listId: string): Promise<void> => {
+  check(await supabase.from('restaurant_lists').delete().eq('id', listId));
+};
+
+export const setListShared = async (listId: string, isShared: boolean): Promise<void> => {
+  check(await supabase.from('restaurant_lists').update({ is_shared: isShared }).eq('id', listId));
+};
+
+// Saving twice is a no-op rather than a unique violation
+export const addToList = async (listId: string, place: SavedPlace): Promise<void> => {
+  check(await supabase
+    .from('restaurant_list_items')
+    .upsert({ list_id: listId, ...place }, { onConflict: 'list_id,place_id', ignoreDuplicates: true }));
+};
+
+export const removeFromList = async (listId: string, placeId: string): Promise<void> => {
+  check(await supabase.from('restaurant_list_items').delete().eq('list_id', listId).eq('place_id', placeId));
+};
+
+// Returns null when the link is unknown or the owner stopped sharing
+export const fetchSharedList = async (shareToken: string): Promise<SharedList | null> => {
+  const data = check(await supabase.rpc('get_shared_list', { list_share_token: shareToken }));
+  return data as unknown as SharedList | null;
+};
+
+export const getShareUrl = (list: Pick<RestaurantList, 'share_token'>) =>
+  `${window.location.origin}/lists/shared/${list.share_token}`;
@@ -0,0 +1,90 @@
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const CLOSING_SOON_MINUTES = 60;
+
+// Normalized hours as returned by search-restaurants: periods are minutes
+// since Sunday 00:00 in the restaurant's local time.
+export interface OpeningHours {
+  periods: Array<{ open: number; close: number }>;
+  utc_offset_minutes: number;
+  weekday_text?: string[];
+}
+
+export type OpenState = 'open' | 'closing_soon' | 'closed';
+
+export interface OpenStatus {
+  state: OpenState;
+  label: string;
+}
+
+const formatMinuteOfDay = (minute: number) => {
+  const hours = Math.floor(minute / 60) % 24;
+  const minutes = minute % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+const localMinuteOfWeek = (date: Date, utcOffsetMinutes: number) => {
+  const local = new Date(date.getTime() + utcOffsetMinutes * 60 * 1000);
+  return local.getUTCDay() * MINUTES_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+};
+
+export const getOpenStatus = (hours: OpeningHours | null | undefined, now = new Date()): OpenStatus | null => {
+  if (!hours?.periods?.length) {
+    return null;
+  }
+
+  const minute = localMinuteOfWeek(now, hours.utc_offset_minutes);
+
+  // Check both this week and the tail of last week's wrapping periods
+  for (const candidate of [minute, minute + MINUTES_PER_WEEK]) {
+    const period = hours.periods.find(({ open, close }) => candidate >= open && candidate < close);
+    if (period) {
+      const minutesLeft = period.close - candidate;
+      if (period.close - period.open >= MINUTES_PER_WEEK) {
+        return { state: 'open', label: 'Open 24 hours' };
+      }
+      return minutesLeft <= CLOSING_SOON_MINUTES
+        ? { state: 'closing_soon', label: `Closes soon · ${formatMinuteOfDay(period.close % MINUTES_PER_DAY)}` }
+        : { state: 'open', label: `Open until ${formatMinuteOfDay(period.close % MINUTES_PER_DAY)}` };
+    }
+  }
+
+  const next = hours.periods.find(({ open }) => open > minute) ?? hours.periods[0];
+  const opensToday = Math.floor(next.open / MINUTES_PER_DAY) === Math.floor(minute / MINUTES_PER_DAY);
+
+  return {
+    state: 'closed',
+    label: opensToday ? `Closed · Opens ${formatMinuteOfDay(next.open % MINUTES_PER_DAY)}` : 'Closed',
+  };
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface DailyHours {
+  day: string;
+  hours: string;
+}
+
+// One line per day, Monday first like Google's weekday_text. Periods that
+// run past midnight are listed under the day they open.
+export const getWeeklyHours = (hours: OpeningHours | null | undefined): DailyHours[] => {
+  if (!hours?.periods?.length) {
+    return [];
+  }
+
+  const alwaysOpen = hours.periods.some(({ open, close }) => close - open >= MINUTES_PER_WEEK);
+
+  const days = DAY_NAMES.map((day, index) => {
+    if (alwaysOpen) {
+      return { day, hours: 'Open 24 hours' };
+    }
+
+    const ranges = hours.periods
+      .filter(({ open }) => Math.floor(open / MINUTES_PER_DAY) % 7 === index)
+      .map(({ open, close }) => `${formatMinuteOfDay(open % MINUTES_PER_DAY)}–${formatMinuteOfDay(close % MINUTES_PER_DAY)}`);
+
+    return { day, hours: ranges.length > 0 ? ranges.join(', ') : 'Closed' };
+  });
+
+  return [...days.slice(1), days[0]];
+};
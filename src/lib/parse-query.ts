@@ -0,0 +1,52 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SearchUrlState } from '@/lib/search-url';
+
+// Mirrors ParsedQuery in the parse-query function's query-parser.ts; fields
+// the query didn't mention are missing
+export interface ParsedQuery {
+  location?: string;
+  max_price?: number;
+  max_distance_km?: number;
+  cuisine?: string[];
+  veg_only?: boolean;
+  jain_food?: boolean;
+  menu?: string[];
+  open_now?: boolean;
+  open_at?: string;
+}
+
+export interface QueryParseResult {
+  filters: ParsedQuery;
+  source: 'llm' | 'rules';
+}
+
+export const parseSearchQuery = async (query: string): Promise<QueryParseResult> => {
+  const { data, error } = await supabase.functions.invoke('parse-query', { body: { query } });
+
+  if (error) {
+    // The function's JSON error body is more useful than the generic message
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+
+  return data as QueryParseResult;
+};
+
+// Overlays the parsed filters on the current search; a parsed location
+// replaces coordinates from "Use My Location"
+export const applyParsedQuery = ({ location, coordinates, filters }: SearchUrlState, parsed: ParsedQuery): SearchUrlState => ({
+  location: parsed.location ?? location,
+  coordinates: parsed.location ? null : coordinates,
+  filters: {
+    ...filters,
+    ...(parsed.max_price !== undefined && { maxPrice: parsed.max_price }),
+    ...(parsed.max_distance_km !== undefined && { maxDistance: parsed.max_distance_km }),
+    ...(parsed.cuisine && { cuisine: parsed.cuisine }),
+    ...(parsed.veg_only !== undefined && { vegOnly: parsed.veg_only }),
+    ...(parsed.jain_food !== undefined && { jainFood: parsed.jain_food }),
+    ...(parsed.menu && { menu: parsed.menu }),
+    // "Open now" and "open at" are alternatives on the search page
+    ...(parsed.open_now && { openNow: true, openAt: '' }),
+    ...(parsed.open_at && { openNow: false, openAt: parsed.open_at }),
+  },
+});
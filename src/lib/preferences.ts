@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_FILTERS, type SearchFilters } from '@/lib/search-url';
+
+export type UserPreferences = Omit<Tables<'user_preferences'>, 'user_id' | 'created_at' | 'updated_at'>;
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  veg_only: false,
+  jain_food: false,
+  vegan: false,
+  halal: false,
+  gluten_free: false,
+  allergens: [],
+  favorite_cuisines: [],
+  disliked_cuisines: [],
+  max_price: DEFAULT_FILTERS.maxPrice,
+  default_radius_km: DEFAULT_FILTERS.maxDistance,
+};
+
+// Mirrors TasteProfile in search-restaurants' profile.ts
+export type TasteProfile = Pick<
+  UserPreferences,
+  'vegan' | 'halal' | 'gluten_free' | 'allergens' | 'favorite_cuisines' | 'disliked_cuisines'
+>;
+
+// Null until the user saves a profile
+export const fetchPreferences = async (): Promise<UserPreferences | null> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('veg_only, jain_food, vegan, halal, gluten_free, allergens, favorite_cuisines, disliked_cuisines, max_price, default_radius_km')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data;
+};
+
+export const savePreferences = async (preferences: UserPreferences): Promise<void> => {
+  const { error } = await supabase.from('user_preferences').upsert(preferences);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// Starting filters for a new search; vegan implies veg-only
+export const preferencesToFilters = (preferences: UserPreferences): SearchFilters => ({
+  ...DEFAULT_FILTERS,
+  maxPrice: preferences.max_price,
+  maxDistance: preferences.default_radius_km,
+  vegOnly: preferences.veg_only || preferences.vegan,
+  jainFood: preferences.jain_food,
+});
+
+export const toTasteProfile = ({
+  vegan, halal, gluten_free, allergens, favorite_cuisines, disliked_cuisines,
+}: UserPreferences): TasteProfile => ({ vegan, halal, gluten_free, allergens, favorite_cuisines, disliked_cuisines });
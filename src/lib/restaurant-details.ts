@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { OpeningHours } from '@/lib/opening-hours';
+
+// Reviews are stored as returned by the places provider; Google adds the
+// author and a relative time, the local fixtures don't
+export interface PlaceReview {
+  text: string;
+  rating: number;
+  time: number;
+  author_name?: string;
+  relative_time_description?: string;
+}
+
+export interface MenuItem {
+  name: string;
+  veg?: boolean;
+  jain?: boolean;
+}
+
+// restaurants row with its JSON columns typed
+export type RestaurantDetails = Omit<Tables<'restaurants'>, 'location' | 'reviews' | 'menu' | 'opening_hours'> & {
+  location: { lat: number; lng: number } | null;
+  reviews: PlaceReview[] | null;
+  menu: MenuItem[] | null;
+  opening_hours: OpeningHours | null;
+};
+
+export interface RestaurantDetailsResult {
+  restaurant: RestaurantDetails;
+  ai_summary: Tables<'restaurant_ai_summaries'> | null;
+  ai_summary_error?: string;
+}
+
+// Reads the cached rows directly; places that were never searched for, or
+// only analyzed for someone's preferences, are fetched (and cached) through
+// the restaurant-details function, which generates the neutral summary
+export const fetchRestaurantDetails = async (placeId: string): Promise<RestaurantDetailsResult> => {
+  const [{ data: restaurant, error }, { data: aiSummary }] = await Promise.all([
+    supabase.from('restaurants').select('*').eq('place_id', placeId).maybeSingle(),
+    supabase.from('restaurant_ai_summaries').select('*').eq('place_id', placeId).eq('preferences_key', '').maybeSingle(),
+  ]);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (restaurant && aiSummary) {
+    return { restaurant: restaurant as unknown as RestaurantDetails, ai_summary: aiSummary };
+  }
+
+  const { data, error: functionError } = await supabase.functions.invoke('restaurant-details', {
+    body: { place_id: placeId },
+  });
+
+  if (functionError) {
+    // The function's JSON error body is more useful than the generic message
+    const body = await functionError.context?.json?.().catch(() => null);
+    throw new Error(body?.error || functionError.message);
+  }
+
+  return data as RestaurantDetailsResult;
+};
@@ -0,0 +1,19 @@
+// Mirrors ScoreComponent in search-restaurants' ranking.ts
+export interface ScoreComponent {
+  key: 'rating' | 'ai' | 'price_fit' | 'distance' | 'cuisine' | 'dishes' | 'taste' | 'group' | 'dietary';
+  weight: number;
+  value: number;
+  points: number;
+}
+
+export const SCORE_COMPONENT_LABELS: Record<ScoreComponent['key'], string> = {
+  rating: 'Google rating',
+  ai: 'AI review analysis',
+  price_fit: 'Price fit',
+  distance: 'Distance',
+  cuisine: 'Cuisine match',
+  dishes: 'Dish match',
+  taste: 'Your taste profile',
+  group: 'Group fit',
+  dietary: 'Dietary fit',
+};
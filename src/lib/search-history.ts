@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { DEFAULT_FILTERS, writeSearchUrl, type SearchFilters, type SearchUrlState } from '@/lib/search-url';
+
+// user_searches.search_location; lat/lng are filled in by search-restaurants
+// once it has resolved the address
+interface StoredLocation {
+  address?: string;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+// user_searches.filters, snake_case like the search-restaurants params
+interface StoredFilters {
+  max_price?: number;
+  max_distance?: number;
+  cuisine?: string[];
+  veg_only?: boolean;
+  jain_food?: boolean;
+  menu?: string[];
+  open_now?: boolean;
+  open_at?: string | null;
+  prefer_nearby?: boolean;
+}
+
+export interface SearchHistoryEntry extends SearchUrlState {
+  id: string;
+  created_at: string;
+  results_count: number | null;
+}
+
+export const toStoredSearch = ({ location, coordinates, filters }: SearchUrlState) => ({
+  search_location: {
+    lat: coordinates?.lat ?? null,
+    lng: coordinates?.lng ?? null,
+    address: location,
+  } satisfies StoredLocation,
+  filters: {
+    max_price: filters.maxPrice,
+    max_distance: filters.maxDistance,
+    cuisine: filters.cuisine,
+    veg_only: filters.vegOnly,
+    jain_food: filters.jainFood,
+    menu: filters.menu,
+    open_now: filters.openNow,
+    open_at: filters.openAt || null,
+    prefer_nearby: filters.preferNearby,
+  } satisfies StoredFilters,
+});
+
+// Older rows may lack newer filters, so fall back to the defaults
+const fromStoredFilters = (stored: StoredFilters | null): SearchFilters => ({
+  maxPrice: stored?.max_price ?? DEFAULT_FILTERS.maxPrice,
+  maxDistance: stored?.max_distance ?? DEFAULT_FILTERS.maxDistance,
+  cuisine: stored?.cuisine ?? DEFAULT_FILTERS.cuisine,
+  vegOnly: stored?.veg_only ?? DEFAULT_FILTERS.vegOnly,
+  jainFood: stored?.jain_food ?? DEFAULT_FILTERS.jainFood,
+  menu: stored?.menu ?? DEFAULT_FILTERS.menu,
+  openNow: stored?.open_now ?? DEFAULT_FILTERS.openNow,
+  openAt: stored?.open_at ?? DEFAULT_FILTERS.openAt,
+  preferNearby: stored?.prefer_nearby ?? DEFAULT_FILTERS.preferNearby,
+});
+
+const toEntry = (row: {
+  id: string;
+  created_at: string;
+  results_count: number | null;
+  search_location: Json;
+  filters: Json | null;
+}): SearchHistoryEntry => {
+  const stored = row.search_location as StoredLocation;
+  const coordinates = typeof stored.lat === 'number' && typeof stored.lng === 'number'
+    ? { lat: stored.lat, lng: stored.lng }
+    : null;
+
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    results_count: row.results_count,
+    location: stored.address || (coordinates ? `${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}` : ''),
+    coordinates,
+    filters: fromStoredFilters(row.filters as StoredFilters | null),
+  };
+};
+
+// The signed-in user's searches, newest first (RLS hides everyone else's)
+export const fetchSearchHistory = async (limit: number): Promise<SearchHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('user_searches')
+    .select('id, created_at, results_count, search_location, filters')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data.map(toEntry);
+};
+
+// Link to the search page that re-runs this search on load
+export const getSearchUrl = (search: SearchUrlState) =>
+  `/?${writeSearchUrl(new URLSearchParams(), search).toString()}`;
+
+// Short labels for the filters that differ from the defaults
+export const describeFilters = (filters: SearchFilters): string[] => [
+  ...(filters.maxPrice !== DEFAULT_FILTERS.maxPrice ? [`Up to ${'$'.repeat(filters.maxPrice)}`] : []),
+  ...(filters.maxDistance !== DEFAULT_FILTERS.maxDistance ? [`Within ${filters.maxDistance} km`] : []),
+  ...filters.cuisine,
+  ...(filters.vegOnly ? ['Vegetarian'] : []),
+  ...(filters.jainFood ? ['Jain'] : []),
+  ...filters.menu,
+  ...(filters.openNow ? ['Open now'] : []),
+  ...(filters.openAt ? [`Open at ${filters.openAt}`] : []),
+  ...(filters.preferNearby ? ['Closer first'] : []),
+];
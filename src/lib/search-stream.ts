@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const SEARCH_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/search-restaurants`;
+
+// Mirrors the SearchEvent union emitted by search-restaurants in stream mode
+export type SearchStreamEvent<R> =
+  | { type: 'location'; search_location: { lat: number; lng: number }; candidates: number }
+  | { type: 'restaurant'; stage: 'basic' | 'analyzed'; restaurant: R }
+  | { type: 'done'; total_found: number; next_page_token?: string }
+  | { type: 'error'; error: string };
+
+// supabase.functions.invoke buffers the whole body, so streaming searches
+// call the function URL directly and parse the NDJSON response line by line.
+export const streamSearch = async <R>(
+  params: Record<string, unknown>,
+  onEvent: (event: SearchStreamEvent<R>) => void,
+  signal?: AbortSignal,
+): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(SEARCH_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: apiKey,
+      Authorization: `Bearer ${session?.access_token ?? apiKey}`,
+    },
+    body: JSON.stringify({ ...params, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Search failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.trim()) {
+        onEvent(JSON.parse(line));
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    onEvent(JSON.parse(buffer));
+  }
+};
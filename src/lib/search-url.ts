@@ -0,0 +1,102 @@
+export interface SearchFilters {
+  maxPrice: number;
+  maxDistance: number;
+  cuisine: string[];
+  vegOnly: boolean;
+  jainFood: boolean;
+  menu: string[];
+  openNow: boolean;
+  openAt: string;             // "HH:MM", empty for any time
+  preferNearby: boolean;
+}
+
+export const DEFAULT_FILTERS: SearchFilters = {
+  maxPrice: 4,
+  maxDistance: 10,
+  cuisine: [],
+  vegOnly: false,
+  jainFood: false,
+  menu: [],
+  openNow: false,
+  openAt: '',
+  preferNearby: false,
+};
+
+export type ViewMode = 'grid' | 'map';
+
+export interface SearchUrlState {
+  location: string;
+  coordinates: { lat: number; lng: number } | null;
+  filters: SearchFilters;
+}
+
+// Query parameters owned by the search itself; sort and view are kept
+// separately so changing them doesn't re-run anything
+const SEARCH_KEYS = ['location', 'lat', 'lng', 'price', 'distance', 'cuisine', 'veg', 'jain', 'dish', 'open_now', 'open_at', 'nearby'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const parseNumber = (value: string | null, fallback: number, min: number, max: number) => {
+  const parsed = value === null ? NaN : Number(value);
+  return Number.isFinite(parsed) ? clamp(Math.round(parsed), min, max) : fallback;
+};
+
+// Writes the search into a copy of `params`, leaving other keys (sort,
+// view) alone. Defaults are omitted to keep links short.
+export const writeSearchUrl = (params: URLSearchParams, { location, coordinates, filters }: SearchUrlState): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  SEARCH_KEYS.forEach(key => next.delete(key));
+
+  if (location.trim()) next.set('location', location.trim());
+  if (coordinates) {
+    next.set('lat', coordinates.lat.toFixed(5));
+    next.set('lng', coordinates.lng.toFixed(5));
+  }
+
+  if (filters.maxPrice !== DEFAULT_FILTERS.maxPrice) next.set('price', String(filters.maxPrice));
+  if (filters.maxDistance !== DEFAULT_FILTERS.maxDistance) next.set('distance', String(filters.maxDistance));
+  if (filters.cuisine.length > 0) next.set('cuisine', filters.cuisine.join(','));
+  if (filters.vegOnly) next.set('veg', '1');
+  if (filters.jainFood) next.set('jain', '1');
+  filters.menu.forEach(dish => next.append('dish', dish));
+  if (filters.openNow) next.set('open_now', '1');
+  if (filters.openAt) next.set('open_at', filters.openAt);
+  if (filters.preferNearby) next.set('nearby', '1');
+
+  return next;
+};
+
+// Returns null when the URL doesn't describe a search
+export const readSearchUrl = (params: URLSearchParams): SearchUrlState | null => {
+  const lat = Number(params.get('lat'));
+  const lng = Number(params.get('lng'));
+  const coordinates = params.has('lat') && params.has('lng') && Number.isFinite(lat) && Number.isFinite(lng)
+    ? { lat, lng }
+    : null;
+  const location = params.get('location') ?? '';
+
+  if (!location.trim() && !coordinates) {
+    return null;
+  }
+
+  const openAt = params.get('open_at') ?? '';
+
+  return {
+    location: location || (coordinates ? `${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}` : ''),
+    coordinates,
+    filters: {
+      maxPrice: parseNumber(params.get('price'), DEFAULT_FILTERS.maxPrice, 1, 4),
+      maxDistance: parseNumber(params.get('distance'), DEFAULT_FILTERS.maxDistance, 1, 25),
+      cuisine: params.get('cuisine')?.split(',').map(c => c.trim()).filter(Boolean) ?? [],
+      vegOnly: params.get('veg') === '1',
+      jainFood: params.get('jain') === '1',
+      menu: params.getAll('dish').map(d => d.trim()).filter(Boolean),
+      openNow: params.get('open_now') === '1',
+      openAt: /^([01]\d|2[0-3]):[0-5]\d$/.test(openAt) ? openAt : '',
+      preferNearby: params.get('nearby') === '1',
+    },
+  };
+};
+
+export const readViewMode = (params: URLSearchParams): ViewMode =>
+  params.get('view') === 'map' ? 'map' : 'grid';
@@ -0,0 +1,60 @@
+export const SORT_OPTIONS = [
+  { value: 'best', label: 'Best match' },
+  { value: 'rating', label: 'Highest rating' },
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'cheapest', label: 'Cheapest' },
+  { value: 'most_reviewed', label: 'Most reviewed' },
+  { value: 'ai_confidence', label: 'AI confidence' },
+] as const;
+
+export type SortOrder = typeof SORT_OPTIONS[number]['value'];
+
+export const DEFAULT_SORT_ORDER: SortOrder = 'best';
+
+// Fields of a search result the sort orders read
+interface Sortable {
+  place_id: string;
+  rating: number;
+  price_level: number;
+  user_ratings_total?: number | null;
+  distance_meters?: number;
+  ai_summary?: { confidence: number };
+  total_score?: number;
+}
+
+export const isSortOrder = (value: string | null): value is SortOrder =>
+  SORT_OPTIONS.some(option => option.value === value);
+
+// Compares optional values; missing values always sort last
+const compareOptional = (a: number | null | undefined, b: number | null | undefined, direction: 1 | -1) => {
+  if (a == null) return b == null ? 0 : 1;
+  if (b == null) return -1;
+  return (a - b) * direction;
+};
+
+const ascending = (a?: number | null, b?: number | null) => compareOptional(a, b, 1);
+const descending = (a?: number | null, b?: number | null) => compareOptional(a, b, -1);
+
+const COMPARATORS: Record<Exclude<SortOrder, 'best'>, (a: Sortable, b: Sortable) => number> = {
+  rating: (a, b) => descending(a.rating || null, b.rating || null),
+  nearest: (a, b) => ascending(a.distance_meters, b.distance_meters),
+  cheapest: (a, b) => ascending(a.price_level || null, b.price_level || null),
+  most_reviewed: (a, b) => descending(a.user_ratings_total, b.user_ratings_total),
+  ai_confidence: (a, b) => descending(a.ai_summary?.confidence, b.ai_summary?.confidence),
+};
+
+// "Best match" keeps later pages below earlier ones so loading more never
+// reshuffles what is on screen; the explicit orders sort everything loaded.
+// Ties fall back to total_score.
+export const sortRestaurants = <R extends Sortable>(
+  restaurants: R[],
+  order: SortOrder,
+  pageOf: Map<string, number>
+): R[] => {
+  const byScore = (a: R, b: R) => descending(a.total_score, b.total_score);
+  const compare = order === 'best'
+    ? (a: R, b: R) => (pageOf.get(a.place_id) ?? 0) - (pageOf.get(b.place_id) ?? 0) || byScore(a, b)
+    : (a: R, b: R) => COMPARATORS[order](a, b) || byScore(a, b);
+
+  return [...restaurants].sort(compare);
+};
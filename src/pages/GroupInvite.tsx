@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, ArrowLeft, Loader2, LogIn, Users } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { useAuth } from '@/hooks/use-auth';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useToast } from '@/hooks/use-toast';
+import { fetchGroupInvite, joinGroupSession, MAX_GROUP_MEMBERS, toMemberPreferences } from '@/lib/groups';
+
+// Landing page of an invite link: shows the group and joins it once the
+// visitor is signed in and has picked a name
+const GroupInvite = () => {
+  const { joinToken = '' } = useParams();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { preferences } = usePreferences();
+  const [displayName, setDisplayName] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: invite, isLoading, error } = useQuery({
+    queryKey: ['group-invite', joinToken, user?.id],
+    queryFn: () => fetchGroupInvite(joinToken),
+    enabled: !!joinToken && !isAuthLoading,
+  });
+
+  const defaultDisplayName = user?.email?.split('@')[0] ?? '';
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsJoining(true);
+    try {
+      // Start from the saved profile so most people only need to check it
+      const sessionId = await joinGroupSession(
+        joinToken,
+        displayName.trim() || defaultDisplayName,
+        preferences ? toMemberPreferences(preferences) : undefined,
+      );
+
+      navigate(`/groups/${sessionId}`);
+    } catch (error) {
+      toast({
+        title: "Couldn't Join Group",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      setIsJoining(false);
+    }
+  };
+
+  if (isAuthLoading || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground gap-2">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        Loading invite...
+      </div>
+    );
+  }
+
+  if (error || !invite) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center px-4">
+        <AlertCircle className="w-10 h-10 text-muted-foreground" />
+        <p className="text-lg font-semibold">This invite isn't valid</p>
+        <p className="text-muted-foreground">
+          {(error as Error | null)?.message ?? 'The link is wrong or the group was deleted.'}
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/"><ArrowLeft className="w-4 h-4" /> Find restaurants</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  if (invite.is_member) {
+    return <Navigate to={`/groups/${invite.session_id}`} replace />;
+  }
+
+  const isFull = invite.member_count >= MAX_GROUP_MEMBERS;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Users className="w-10 h-10 text-primary mx-auto" />
+          <CardTitle className="text-2xl">Join "{invite.name}"</CardTitle>
+          <CardDescription>
+            {invite.member_count} {invite.member_count === 1 ? 'person has' : 'people have'} joined
+            {invite.location && ` · eating near ${invite.location}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isFull ? (
+            <p className="text-center text-muted-foreground">This group is full.</p>
+          ) : user ? (
+            <form onSubmit={handleJoin} className="space-y-3">
+              <Input
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                placeholder={defaultDisplayName ? `Your name (${defaultDisplayName})` : 'Your name'}
+                maxLength={40}
+                aria-label="Your name"
+              />
+              <Button type="submit" className="w-full" disabled={isJoining || !(displayName.trim() || defaultDisplayName)}>
+                {isJoining && <Loader2 className="w-4 h-4 animate-spin" />}
+                Join group
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                You can set your dietary needs, budget and cuisines after joining.
+              </p>
+            </form>
+          ) : (
+            <div className="text-center space-y-3">
+              <p className="text-muted-foreground">Sign in to join the group and add your preferences.</p>
+              <Button onClick={() => setIsAuthOpen(true)}>
+                <LogIn className="w-4 h-4" />
+                Sign in
+              </Button>
+              <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default GroupInvite;
@@ -0,0 +1,403 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Link2, Loader2, LogIn, MapPin, Search as SearchIcon, ThumbsUp, Trophy, Users } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { RestaurantCard, type Restaurant } from '@/components/RestaurantCard';
+import { MemberPreferencesForm } from '@/components/MemberPreferencesForm';
+import { useAuth } from '@/hooks/use-auth';
+import { useGroupSession } from '@/hooks/use-groups';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteGroupSession,
+  getInviteUrl,
+  leaveGroupSession,
+  MAX_GROUP_MEMBERS,
+  saveGroupResults,
+  setGroupLocation,
+  setVote,
+  toGroupSearchMember,
+  type GroupMember,
+} from '@/lib/groups';
+import { streamSearch } from '@/lib/search-stream';
+import { sortRestaurants } from '@/lib/sort-restaurants';
+
+const PRICE_LABELS = ['Budget', 'Moderate', 'Upscale', 'Fine Dining'];
+
+const memberNeeds = (member: GroupMember) => [
+  member.veg_only && 'Vegetarian',
+  member.jain_food && 'Jain',
+  member.vegan && 'Vegan',
+  member.halal && 'Halal',
+  member.gluten_free && 'Gluten-free',
+  ...member.allergens.map(allergen => `No ${allergen}`),
+  '$'.repeat(member.max_price),
+].filter((need): need is string => !!need);
+
+// How search-restaurants merges the members, in words; mirrors
+// groupSearchFilters and matchGroupNeeds in group.ts
+const describeMergedFilters = (members: GroupMember[]): string[] => {
+  const names = (filter: (member: GroupMember) => boolean) =>
+    members.filter(filter).map(member => member.display_name).join(', ');
+  const vegFor = names(member => member.veg_only || member.vegan);
+  const jainFor = names(member => member.jain_food);
+  const halalFor = names(member => member.halal);
+  const glutenFreeFor = names(member => member.gluten_free);
+  const allergens = [...new Set(members.flatMap(member => member.allergens.map(allergen => allergen.toLowerCase())))];
+  const budget = Math.round(members.reduce((sum, member) => sum + member.max_price, 0) / members.length);
+
+  return [
+    vegFor && `Vegetarian places only (for ${vegFor})`,
+    jainFor && `Jain options required (for ${jainFor})`,
+    halalFor && `Places serving pork are left out and halal places rank first (for ${halalFor})`,
+    glutenFreeFor && `Places with gluten-free options rank first (for ${glutenFreeFor})`,
+    allergens.length > 0 && `Places whose menu or reviews mention ${allergens.join(', ')} are left out; the rest may still contain them`,
+    `Up to ${PRICE_LABELS[budget - 1]} on average; places over someone's budget rank lower`,
+    'Places that suit the least happy member rank above crowd-pleasers that leave someone out',
+  ].filter((line): line is string => !!line);
+};
+
+// A group's shared page: members and their needs, the host's search and
+// everyone's votes, kept live over realtime
+const GroupSession = () => {
+  const { sessionId = '' } = useParams();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { session, isLoading, error, refresh } = useGroupSession(sessionId);
+  const [location, setLocation] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [pendingVotes, setPendingVotes] = useState<Set<string>>(new Set());
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const me = session?.members.find(member => member.user_id === user?.id);
+  const isHost = !!session && session.created_by === user?.id;
+  const searchLocation = location ?? session?.location ?? '';
+
+  const handleCopyInvite = async () => {
+    if (!session) return;
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(session));
+      toast({
+        title: "Invite Link Copied",
+        description: `Anyone signed in can join with it, up to ${MAX_GROUP_MEMBERS} people.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Couldn't access the clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Results are collected in full and saved once, so the others see the
+  // finished ranking rather than places trickling in
+  const handleSearch = async () => {
+    if (!session || !searchLocation.trim()) return;
+
+    setIsSearching(true);
+    try {
+      if (searchLocation.trim() !== session.location) {
+        await setGroupLocation(session.id, searchLocation);
+      }
+
+      const found = new Map<string, Restaurant>();
+      await streamSearch<Restaurant>({
+        location: searchLocation.trim(),
+        group: session.members.map(toGroupSearchMember),
+      }, (event) => {
+        if (event.type === 'restaurant') {
+          found.set(event.restaurant.place_id, event.restaurant);
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      });
+
+      await saveGroupResults(session.id, sortRestaurants([...found.values()], 'best', new Map()));
+      await refresh();
+    } catch (error) {
+      const message = (error as Error).message;
+      toast({
+        title: "Search Failed",
+        description: message.includes('Unable to find location')
+          ? "Unable to find the specified location. Please check the spelling or try a different location."
+          : message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleVote = async (placeId: string, voted: boolean) => {
+    if (!me) return;
+
+    setPendingVotes(prev => new Set(prev).add(placeId));
+    try {
+      await setVote(me, placeId, voted);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Couldn't Save Vote",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setPendingVotes(prev => {
+        const next = new Set(prev);
+        next.delete(placeId);
+        return next;
+      });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!session || !me) return;
+    try {
+      await (isHost ? deleteGroupSession(session.id) : leaveGroupSession(me.id));
+      navigate('/groups');
+    } catch (error) {
+      toast({
+        title: isHost ? "Couldn't Delete Group" : "Couldn't Leave Group",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderResults = () => {
+    if (!session) return null;
+
+    const results = session.results ?? [];
+    const votersOf = (placeId: string) => session.votes
+      .filter(vote => vote.place_id === placeId)
+      .map(vote => session.members.find(member => member.id === vote.member_id)?.display_name)
+      .filter((name): name is string => !!name);
+    const mostVotes = Math.max(0, ...results.map(restaurant => votersOf(restaurant.place_id).length));
+
+    if (results.length === 0) {
+      return (
+        <p className="text-center text-muted-foreground py-8">
+          {session.searched_at
+            ? 'The last search found nothing. Try a different location.'
+            : isHost
+              ? 'Search once everyone has added their preferences.'
+              : 'Waiting for the host to search. Add your preferences in the meantime.'}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          {results.length} places, ranked for the whole group · searched{' '}
+          {session.searched_at && new Date(session.searched_at).toLocaleString()}
+        </p>
+        <div className="grid gap-6 sm:grid-cols-2">
+          {results.map(restaurant => {
+            const voters = votersOf(restaurant.place_id);
+            const hasVoted = !!me && session.votes.some(vote => vote.member_id === me.id && vote.place_id === restaurant.place_id);
+
+            return (
+              <div key={restaurant.place_id} className="space-y-2">
+                <RestaurantCard restaurant={restaurant} />
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Button
+                    size="sm"
+                    variant={hasVoted ? 'default' : 'outline'}
+                    disabled={!me || pendingVotes.has(restaurant.place_id)}
+                    onClick={() => handleVote(restaurant.place_id, !hasVoted)}
+                    aria-pressed={hasVoted}
+                  >
+                    <ThumbsUp className="w-4 h-4" />
+                    {hasVoted ? 'Voted' : 'Vote'} · {voters.length}
+                  </Button>
+                  {mostVotes > 0 && voters.length === mostVotes && (
+                    <Badge className="gap-1"><Trophy className="w-3 h-3" /> Group favourite</Badge>
+                  )}
+                  {voters.length > 0 && (
+                    <span className="text-xs text-muted-foreground">{voters.join(', ')}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading group...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="text-center space-y-4 py-16">
+          <Users className="w-10 h-10 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">Sign in to see this group.</p>
+          <Button onClick={() => setIsAuthOpen(true)}>
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </Button>
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-destructive py-16">{error.message}</p>;
+    }
+
+    if (!session) {
+      return (
+        <p className="text-center text-muted-foreground py-16">
+          This group doesn't exist or you aren't in it. Ask the host for an invite link.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-4xl font-bold">{session.name}</h1>
+            <p className="text-muted-foreground">
+              {session.members.length} of {MAX_GROUP_MEMBERS} people
+              {session.location && ` · near ${session.location}`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopyInvite}>
+              <Link2 className="w-4 h-4" />
+              Copy invite link
+            </Button>
+            {me && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm">{isHost ? 'Delete group' : 'Leave group'}</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>{isHost ? `Delete "${session.name}"?` : `Leave "${session.name}"?`}</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {isHost
+                        ? 'Everyone is removed from the group and its invite link stops working.'
+                        : 'Your preferences and votes are removed. You can rejoin with the invite link.'}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleLeave}>{isHost ? 'Delete' : 'Leave'}</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </div>
+
+        {/* Members */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Who's Coming</CardTitle>
+            <CardDescription>Everyone's needs are combined into one search.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="divide-y">
+              {session.members.map(member => (
+                <li key={member.id} className="py-2 flex items-center justify-between gap-2 flex-wrap">
+                  <span className="font-medium">
+                    {member.display_name}
+                    {member.user_id === user.id && <span className="text-muted-foreground"> (you)</span>}
+                    {member.user_id === session.created_by && <Badge variant="secondary" className="ml-2">Host</Badge>}
+                  </span>
+                  <span className="flex flex-wrap gap-1">
+                    {memberNeeds(member).map(need => <Badge key={need} variant="outline">{need}</Badge>)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {session.members.length > 0 && (
+              <ul className="text-sm text-muted-foreground space-y-1 border-t pt-3">
+                {describeMergedFilters(session.members).map(line => <li key={line}>• {line}</li>)}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* My preferences */}
+        {me && (
+          <Card>
+            <CardHeader>
+              <CardTitle>My Preferences</CardTitle>
+              <CardDescription>Only you can change these; the group sees them above.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MemberPreferencesForm key={`${me.id}-${me.updated_at}`} member={me} onSaved={refresh} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Search */}
+        {isHost && (
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                value={searchLocation}
+                onChange={(e) => setLocation(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && !isSearching && handleSearch()}
+                placeholder="Where are you eating? e.g. Andheri West, Mumbai"
+                className="pl-9"
+              />
+            </div>
+            <Button onClick={handleSearch} disabled={isSearching || !searchLocation.trim() || session.members.length === 0}>
+              {isSearching ? <Loader2 className="w-4 h-4 animate-spin" /> : <SearchIcon className="w-4 h-4" />}
+              Find restaurants
+            </Button>
+          </div>
+        )}
+
+        {renderResults()}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/groups"><ArrowLeft className="w-4 h-4" /> All groups</Link>
+          </Button>
+          <ProfileMenu />
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default GroupSession;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Loader2, LogIn, Plus, Users } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useGroupSessions } from '@/hooks/use-groups';
+import { useToast } from '@/hooks/use-toast';
+import { createGroupSession } from '@/lib/groups';
+
+const Groups = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { sessions, isLoading, error } = useGroupSessions();
+  const [name, setName] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // What the others see for the host until they change it
+  const defaultDisplayName = user?.email?.split('@')[0] ?? '';
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const sessionId = await createGroupSession(name, displayName.trim() || defaultDisplayName);
+      navigate(`/groups/${sessionId}`);
+    } catch (error) {
+      toast({
+        title: "Couldn't Create Group",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+      setIsCreating(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading groups...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="text-center space-y-4 py-16">
+          <Users className="w-10 h-10 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">Sign in to pick a place to eat together with your group.</p>
+          <Button onClick={() => setIsAuthOpen(true)}>
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </Button>
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-destructive py-16">{error.message}</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder='New group, e.g. "Friday team lunch"'
+            maxLength={80}
+          />
+          <Input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder={defaultDisplayName ? `Your name (${defaultDisplayName})` : 'Your name'}
+            maxLength={40}
+            className="sm:w-48"
+          />
+          <Button type="submit" disabled={isCreating || !name.trim() || !(displayName.trim() || defaultDisplayName)}>
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create
+          </Button>
+        </form>
+
+        {sessions.length > 0 ? (
+          sessions.map(session => (
+            <Link key={session.id} to={`/groups/${session.id}`} className="block">
+              <Card className="hover:shadow-warm transition-shadow">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-xl">{session.name}</CardTitle>
+                    {session.created_by === user.id && <Badge variant="secondary">Host</Badge>}
+                  </div>
+                  <CardDescription>
+                    {session.location || 'No location yet'} ·{' '}
+                    {session.searched_at
+                      ? `searched ${new Date(session.searched_at).toLocaleDateString()}`
+                      : `created ${new Date(session.created_at).toLocaleDateString()}`}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            </Link>
+          ))
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            You aren't in any groups yet. Create one above and share its invite link.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/"><ArrowLeft className="w-4 h-4" /> Back to search</Link>
+          </Button>
+          <ProfileMenu />
+        </div>
+        <h1 className="text-4xl font-bold">Group Dining</h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default Groups;
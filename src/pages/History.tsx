@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { ArrowLeft, History as HistoryIcon, Loader2, LogIn, MapPin, RotateCw } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { describeFilters, getSearchUrl } from '@/lib/search-history';
+
+const HISTORY_LIMIT = 100;
+
+const formatSearchedAt = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const History = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { entries, isLoading, error } = useSearchHistory(HISTORY_LIMIT);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading history...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="text-center space-y-4 py-16">
+          <HistoryIcon className="w-10 h-10 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">Sign in to keep a history of your searches.</p>
+          <Button onClick={() => setIsAuthOpen(true)}>
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </Button>
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-destructive py-16">{error.message}</p>;
+    }
+
+    if (entries.length === 0) {
+      return (
+        <p className="text-center text-muted-foreground py-16">
+          No searches yet. <Link to="/" className="text-primary hover:underline">Find a restaurant</Link> to get started.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {entries.map(entry => {
+          const details = describeFilters(entry.filters);
+          return (
+            <Card key={entry.id}>
+              <CardContent className="flex items-center gap-4 py-4">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-medium flex items-center gap-1">
+                    <MapPin className="w-4 h-4 text-primary flex-shrink-0" />
+                    <span className="truncate">{entry.location}</span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatSearchedAt(entry.created_at)}
+                    {entry.results_count !== null && (
+                      <> · {entry.results_count} {entry.results_count === 1 ? 'result' : 'results'}</>
+                    )}
+                  </p>
+                  {details.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {details.map(detail => (
+                        <Badge key={detail} variant="secondary" className="text-xs">{detail}</Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <Button variant="outline" size="sm" asChild>
+                  <Link to={getSearchUrl(entry)}>
+                    <RotateCw className="w-4 h-4" />
+                    Search again
+                  </Link>
+                </Button>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/"><ArrowLeft className="w-4 h-4" /> Back to search</Link>
+          </Button>
+          <ProfileMenu />
+        </div>
+        <h1 className="text-4xl font-bold">Search History</h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ArrowLeft, Heart, Link2, Loader2, MapPin, Pencil, Plus, Trash2, X, Check, LogIn } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { useLists } from '@/hooks/use-lists';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createList,
+  deleteList,
+  getShareUrl,
+  removeFromList,
+  renameList,
+  setListShared,
+  type RestaurantList,
+} from '@/lib/lists';
+
+interface ListCardProps {
+  list: RestaurantList;
+  onChange: () => Promise<unknown>;
+}
+
+const ListCard: React.FC<ListCardProps> = ({ list, onChange }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(list.name);
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await onChange();
+    } catch (error) {
+      toast({
+        title: "Couldn't Update List",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    await run(() => renameList(list.id, name));
+    setIsRenaming(false);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(list));
+      toast({
+        title: "Link Copied",
+        description: "Anyone with this link can view the list, but not change it.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Couldn't access the clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          {isRenaming ? (
+            <form onSubmit={handleRename} className="flex flex-1 gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={80} autoFocus />
+              <Button type="submit" size="icon" variant="ghost" disabled={isBusy || !name.trim()} aria-label="Save name">
+                <Check className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                aria-label="Cancel rename"
+                onClick={() => {
+                  setName(list.name);
+                  setIsRenaming(false);
+                }}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </form>
+          ) : (
+            <div>
+              <CardTitle className="text-xl">{list.name}</CardTitle>
+              <CardDescription>
+                {list.items.length} {list.items.length === 1 ? 'place' : 'places'}
+              </CardDescription>
+            </div>
+          )}
+          {!isRenaming && (
+            <div className="flex gap-1">
+              <Button size="icon" variant="ghost" aria-label="Rename list" onClick={() => setIsRenaming(true)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="icon" variant="ghost" aria-label="Delete list">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete "{list.name}"?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The list and its share link will be removed. Restaurants stay searchable.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => run(() => deleteList(list.id))}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </div>
+
+        {/* Sharing */}
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`share-${list.id}`}
+              checked={list.is_shared}
+              disabled={isBusy}
+              onCheckedChange={(checked) => run(() => setListShared(list.id, checked))}
+            />
+            <Label htmlFor={`share-${list.id}`} className="text-sm">Share read-only link</Label>
+          </div>
+          {list.is_shared && (
+            <Button size="sm" variant="outline" onClick={handleCopyLink}>
+              <Link2 className="w-4 h-4" />
+              Copy link
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {list.items.length > 0 ? (
+          <ul className="divide-y">
+            {list.items.map(item => (
+              <li key={item.id} className="flex items-center gap-3 py-3">
+                {item.photo ? (
+                  <img src={item.photo} alt={item.name} className="w-14 h-14 rounded-md object-cover flex-shrink-0" />
+                ) : (
+                  <div className="w-14 h-14 rounded-md bg-muted flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <Link
+                    to={`/restaurant/${encodeURIComponent(item.place_id)}`}
+                    className="font-medium hover:text-primary hover:underline"
+                  >
+                    {item.name}
+                  </Link>
+                  {item.formatted_address && (
+                    <p className="text-sm text-muted-foreground truncate flex items-center gap-1">
+                      <MapPin className="w-3 h-3 flex-shrink-0" />
+                      {item.formatted_address}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Remove ${item.name}`}
+                  disabled={isBusy}
+                  onClick={() => run(() => removeFromList(list.id, item.place_id))}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Nothing saved yet. Use the <Heart className="w-3 h-3 inline" /> on a search result to add places.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Lists = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { lists, isLoading, error, refresh } = useLists();
+  const [newListName, setNewListName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+
+    setIsCreating(true);
+    try {
+      await createList(newListName);
+      await refresh();
+      setNewListName('');
+    } catch (error) {
+      toast({
+        title: "Couldn't Create List",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading lists...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="text-center space-y-4 py-16">
+          <Heart className="w-10 h-10 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">Sign in to save restaurants to lists.</p>
+          <Button onClick={() => setIsAuthOpen(true)}>
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </Button>
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-destructive py-16">{error.message}</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder='New list, e.g. "Team lunch"'
+            maxLength={80}
+          />
+          <Button type="submit" disabled={isCreating || !newListName.trim()}>
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Create
+          </Button>
+        </form>
+
+        {lists.length > 0 ? (
+          lists.map(list => <ListCard key={list.id} list={list} onChange={refresh} />)
+        ) : (
+          <p className="text-center text-muted-foreground py-8">
+            You don't have any lists yet. Create one above or save a place from your search results.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/"><ArrowLeft className="w-4 h-4" /> Back to search</Link>
+          </Button>
+          <ProfileMenu />
+        </div>
+        <h1 className="text-4xl font-bold">My Lists</h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default Lists;
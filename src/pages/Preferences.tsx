@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Loader2, LogIn, SlidersHorizontal, X } from 'lucide-react';
+import { AuthDialog } from '@/components/AuthDialog';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { useAuth } from '@/hooks/use-auth';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useToast } from '@/hooks/use-toast';
+import { CUISINE_OPTIONS } from '@/lib/cuisines';
+import { DEFAULT_PREFERENCES, savePreferences, type UserPreferences } from '@/lib/preferences';
+
+type DietaryFlag = 'veg_only' | 'jain_food' | 'vegan' | 'halal' | 'gluten_free';
+
+const DIETARY_OPTIONS: Array<{ key: DietaryFlag; label: string; description: string }> = [
+  { key: 'veg_only', label: 'Vegetarian', description: 'Only show vegetarian places' },
+  { key: 'jain_food', label: 'Jain', description: 'Only show places with Jain options' },
+  { key: 'vegan', label: 'Vegan', description: 'Vegetarian, with vegan-friendly places ranked first' },
+  { key: 'halal', label: 'Halal', description: 'Rank places known to serve halal food first' },
+  { key: 'gluten_free', label: 'Gluten-free', description: 'Rank places with gluten-free options first' },
+];
+
+const PRICE_LABELS = ['Budget', 'Moderate', 'Upscale', 'Fine Dining'];
+
+const Preferences = () => {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { preferences, isLoading, error, refresh } = usePreferences();
+  const [form, setForm] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [allergenInput, setAllergenInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (preferences) {
+      setForm(preferences);
+    }
+  }, [preferences]);
+
+  const setFlag = (key: DietaryFlag, value: boolean) => setForm(prev => ({ ...prev, [key]: value }));
+
+  // A cuisine is either a favorite, avoided, or neither
+  const toggleCuisine = (cuisine: string, list: 'favorite_cuisines' | 'disliked_cuisines') => {
+    const other = list === 'favorite_cuisines' ? 'disliked_cuisines' : 'favorite_cuisines';
+    setForm(prev => ({
+      ...prev,
+      [list]: prev[list].includes(cuisine) ? prev[list].filter(c => c !== cuisine) : [...prev[list], cuisine],
+      [other]: prev[other].filter(c => c !== cuisine),
+    }));
+  };
+
+  const addAllergen = () => {
+    const allergen = allergenInput.trim();
+    if (!allergen) return;
+
+    setForm(prev => ({
+      ...prev,
+      allergens: prev.allergens.some(a => a.toLowerCase() === allergen.toLowerCase())
+        ? prev.allergens
+        : [...prev.allergens, allergen],
+    }));
+    setAllergenInput('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await savePreferences(form);
+      await refresh();
+      toast({
+        title: "Preferences Saved",
+        description: "New searches will start from your profile.",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't Save Preferences",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCuisinePicker = (list: 'favorite_cuisines' | 'disliked_cuisines') => (
+    <div className="flex flex-wrap gap-2">
+      {CUISINE_OPTIONS.map(cuisine => (
+        <Badge
+          key={cuisine}
+          variant={form[list].includes(cuisine) ? (list === 'favorite_cuisines' ? 'default' : 'destructive') : 'outline'}
+          className="cursor-pointer hover:scale-105 transition-transform"
+          onClick={() => toggleCuisine(cuisine, list)}
+        >
+          {cuisine}
+        </Badge>
+      ))}
+    </div>
+  );
+
+  const renderContent = () => {
+    if (isAuthLoading || isLoading) {
+      return (
+        <div className="flex items-center justify-center gap-2 py-16 text-muted-foreground">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading preferences...
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="text-center space-y-4 py-16">
+          <SlidersHorizontal className="w-10 h-10 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">Sign in to save your dietary and taste preferences.</p>
+          <Button onClick={() => setIsAuthOpen(true)}>
+            <LogIn className="w-4 h-4" />
+            Sign in
+          </Button>
+          <AuthDialog open={isAuthOpen} onOpenChange={setIsAuthOpen} />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-destructive py-16">{error.message}</p>;
+    }
+
+    return (
+      <div className="space-y-6">
+        {/* Dietary */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Dietary Needs</CardTitle>
+            <CardDescription>Applied to every new search.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {DIETARY_OPTIONS.map(({ key, label, description }) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`diet-${key}`}>{label}</Label>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <Switch id={`diet-${key}`} checked={form[key]} onCheckedChange={(checked) => setFlag(key, checked)} />
+              </div>
+            ))}
+
+            <div className="space-y-2 pt-2">
+              <Label htmlFor="allergen">Allergens</Label>
+              <p className="text-sm text-muted-foreground">The AI review analysis flags places that may not suit them.</p>
+              <div className="flex gap-2">
+                <Input
+                  id="allergen"
+                  placeholder="e.g. peanuts (press Enter)"
+                  value={allergenInput}
+                  onChange={(e) => setAllergenInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addAllergen();
+                    }
+                  }}
+                />
+                <Button variant="outline" onClick={addAllergen} disabled={!allergenInput.trim()}>
+                  Add
+                </Button>
+              </div>
+              {form.allergens.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {form.allergens.map(allergen => (
+                    <Badge key={allergen} variant="secondary" className="gap-1">
+                      {allergen}
+                      <button
+                        type="button"
+                        onClick={() => setForm(prev => ({ ...prev, allergens: prev.allergens.filter(a => a !== allergen) }))}
+                        aria-label={`Remove ${allergen}`}
+                        className="hover:text-destructive"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Taste */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Cuisines</CardTitle>
+            <CardDescription>Favorites are ranked higher and avoided cuisines lower.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Favorites</Label>
+              {renderCuisinePicker('favorite_cuisines')}
+            </div>
+            <div className="space-y-2">
+              <Label>Avoid</Label>
+              {renderCuisinePicker('disliked_cuisines')}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Search Defaults</CardTitle>
+            <CardDescription>Where the search filters start; you can still change them per search.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <Label className="mb-2 block">Budget: {PRICE_LABELS[form.max_price - 1]}</Label>
+              <Slider
+                value={[form.max_price]}
+                onValueChange={([value]) => setForm(prev => ({ ...prev, max_price: value }))}
+                max={4}
+                min={1}
+                step={1}
+              />
+            </div>
+            <div>
+              <Label className="mb-2 block">Search radius: {form.default_radius_km} km</Label>
+              <Slider
+                value={[form.default_radius_km]}
+                onValueChange={([value]) => setForm(prev => ({ ...prev, default_radius_km: value }))}
+                max={25}
+                min={1}
+                step={1}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Button onClick={handleSave} disabled={isSaving} className="w-full">
+          {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Preferences
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/"><ArrowLeft className="w-4 h-4" /> Back to search</Link>
+          </Button>
+          <ProfileMenu />
+        </div>
+        <h1 className="text-4xl font-bold">Preferences</h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default Preferences;
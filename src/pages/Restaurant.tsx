@@ -0,0 +1,328 @@
+import React from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { ArrowLeft, Star, MapPin, Phone, Globe, Clock, ThumbsUp, ThumbsDown, UtensilsCrossed, Leaf, Loader2, AlertCircle } from 'lucide-react';
+import { PlaceMap } from '@/components/RestaurantMap';
+import { SaveButton } from '@/components/SaveButton';
+import { getOpenStatus, getWeeklyHours } from '@/lib/opening-hours';
+import { fetchRestaurantDetails } from '@/lib/restaurant-details';
+import { cn } from '@/lib/utils';
+
+const formatType = (type: string) =>
+  type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const HIDDEN_TYPES = ['establishment', 'point_of_interest', 'food', 'restaurant'];
+
+const RestaurantDetail = () => {
+  const { placeId = '' } = useParams();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['restaurant', placeId],
+    queryFn: () => fetchRestaurantDetails(placeId),
+    enabled: !!placeId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground gap-2">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        Loading restaurant...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center px-4">
+        <AlertCircle className="w-10 h-10 text-muted-foreground" />
+        <p className="text-lg font-semibold">Couldn't load this restaurant</p>
+        <p className="text-muted-foreground">{(error as Error | null)?.message ?? 'It may no longer be listed.'}</p>
+        <Button variant="outline" asChild>
+          <Link to="/"><ArrowLeft className="w-4 h-4" /> Back to search</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { restaurant, ai_summary: aiSummary, ai_summary_error: aiSummaryError } = data;
+  const openStatus = getOpenStatus(restaurant.opening_hours);
+  const weeklyHours = getWeeklyHours(restaurant.opening_hours);
+  const photos = restaurant.photos ?? [];
+  const reviews = [...(restaurant.reviews ?? [])].sort((a, b) => b.time - a.time);
+  const types = restaurant.types?.filter(type => !HIDDEN_TYPES.includes(type)) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        {/* Go back when we came from the results so their URL state survives */}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => (window.history.state?.idx > 0 ? navigate(-1) : navigate('/'))}
+        >
+          <ArrowLeft className="w-4 h-4" /> Back to search
+        </Button>
+
+        {/* Photos */}
+        {photos.length > 0 && (
+          <Carousel className="mx-12">
+            <CarouselContent>
+              {photos.map((photo, index) => (
+                <CarouselItem key={photo} className="md:basis-1/2">
+                  <img
+                    src={photo}
+                    alt={`${restaurant.name} photo ${index + 1}`}
+                    className="w-full h-64 object-cover rounded-lg"
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {photos.length > 1 && (
+              <>
+                <CarouselPrevious />
+                <CarouselNext />
+              </>
+            )}
+          </Carousel>
+        )}
+
+        {/* Header */}
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <h1 className="text-4xl font-bold">{restaurant.name}</h1>
+            <SaveButton
+              place={{
+                place_id: restaurant.place_id,
+                name: restaurant.name,
+                formatted_address: restaurant.formatted_address,
+                photo: photos[0] ?? null,
+              }}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {!!restaurant.rating && (
+              <span className="flex items-center gap-1 font-semibold">
+                <Star className="w-4 h-4 fill-current text-yellow-500" />
+                {restaurant.rating.toFixed(1)}
+                {!!restaurant.user_ratings_total && (
+                  <span className="font-normal text-muted-foreground">
+                    ({restaurant.user_ratings_total.toLocaleString()} ratings)
+                  </span>
+                )}
+              </span>
+            )}
+            {!!restaurant.price_level && (
+              <span className="text-muted-foreground">{'$'.repeat(restaurant.price_level)}</span>
+            )}
+            {openStatus && (
+              <span className={cn(
+                "flex items-center gap-1",
+                openStatus.state === 'open' && "text-green-600",
+                openStatus.state === 'closing_soon' && "text-orange-500",
+                openStatus.state === 'closed' && "text-red-500"
+              )}>
+                <Clock className="w-4 h-4" />
+                {openStatus.label}
+              </span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {restaurant.veg_only && restaurant.veg_confidence !== 'low' && (
+              <Badge className="bg-green-600 text-white border-0">
+                <Leaf className="w-3 h-3 mr-1" />
+                Pure Veg
+              </Badge>
+            )}
+            {restaurant.jain_food && restaurant.jain_confidence !== 'low' && (
+              <Badge variant="outline" className="border-green-600 text-green-700">Jain-friendly</Badge>
+            )}
+            {types.map(type => (
+              <Badge key={type} variant="secondary">{formatType(type)}</Badge>
+            ))}
+          </div>
+          {restaurant.formatted_address && (
+            <p className="flex items-start gap-2 text-muted-foreground">
+              <MapPin className="w-4 h-4 mt-1 flex-shrink-0" />
+              {restaurant.formatted_address}
+            </p>
+          )}
+
+          {/* Contact Actions */}
+          <div className="flex flex-wrap gap-2">
+            {restaurant.phone_number && (
+              <Button variant="outline" asChild>
+                <a href={`tel:${restaurant.phone_number}`}>
+                  <Phone className="w-4 h-4" />
+                  {restaurant.phone_number}
+                </a>
+              </Button>
+            )}
+            {restaurant.website && (
+              <Button variant="outline" asChild>
+                <a href={restaurant.website} target="_blank" rel="noopener noreferrer">
+                  <Globe className="w-4 h-4" />
+                  Website
+                </a>
+              </Button>
+            )}
+            <Button asChild>
+              <a
+                href={`https://www.google.com/maps/place/?q=place_id:${restaurant.place_id}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <MapPin className="w-4 h-4" />
+                Directions
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2 space-y-6">
+            {/* AI Analysis */}
+            <Card>
+              <CardHeader>
+                <CardTitle>AI Review Analysis</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {aiSummary ? (
+                  <>
+                    <p className="text-muted-foreground">{aiSummary.short_summary}</p>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      {aiSummary.pros.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-medium text-green-600 mb-2 flex items-center gap-1">
+                            <ThumbsUp className="w-4 h-4" /> Pros
+                          </h4>
+                          <ul className="space-y-1 text-sm text-muted-foreground">
+                            {aiSummary.pros.map(pro => <li key={pro}>• {pro}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                      {aiSummary.cons.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-medium text-red-600 mb-2 flex items-center gap-1">
+                            <ThumbsDown className="w-4 h-4" /> Cons
+                          </h4>
+                          <ul className="space-y-1 text-sm text-muted-foreground">
+                            {aiSummary.cons.map(con => <li key={con}>• {con}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                    {aiSummary.dishes_to_try.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium mb-2 flex items-center gap-1">
+                          <UtensilsCrossed className="w-4 h-4" /> Dishes to try
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                          {aiSummary.dishes_to_try.map(dish => <Badge key={dish} variant="outline">{dish}</Badge>)}
+                        </div>
+                      </div>
+                    )}
+                    {aiSummary.top_positive_quote && (
+                      <p className="text-sm italic bg-green-50 dark:bg-green-950/20 p-3 rounded-lg border border-green-200 dark:border-green-800">
+                        "{aiSummary.top_positive_quote}"
+                      </p>
+                    )}
+                    {aiSummary.top_negative_quote && (
+                      <p className="text-sm italic bg-orange-50 dark:bg-orange-950/20 p-3 rounded-lg border border-orange-200 dark:border-orange-800">
+                        "{aiSummary.top_negative_quote}"
+                      </p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {aiSummaryError ?? 'No AI analysis yet. It is generated the next time this place shows up in a search.'}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Reviews */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviews</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {reviews.length > 0 ? reviews.map(review => (
+                  <div key={`${review.time}-${review.author_name ?? ''}`} className="border-b last:border-0 pb-4 last:pb-0">
+                    <div className="flex items-center gap-2 text-sm mb-1">
+                      <span className="flex items-center gap-0.5">
+                        {Array.from({ length: 5 }, (_, i) => (
+                          <Star key={i} className={cn("w-3 h-3", i < review.rating ? "fill-current text-yellow-500" : "text-muted-foreground")} />
+                        ))}
+                      </span>
+                      {review.author_name && <span className="font-medium">{review.author_name}</span>}
+                      <span className="text-muted-foreground">
+                        {review.relative_time_description ?? new Date(review.time * 1000).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{review.text}</p>
+                  </div>
+                )) : (
+                  <p className="text-sm text-muted-foreground">No reviews available.</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            {/* Map */}
+            {restaurant.location && (
+              <div className="h-64">
+                <PlaceMap name={restaurant.name} location={restaurant.location} />
+              </div>
+            )}
+
+            {/* Hours */}
+            {weeklyHours.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Hours</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    {weeklyHours.map(({ day, hours }) => (
+                      <React.Fragment key={day}>
+                        <dt className="font-medium">{day}</dt>
+                        <dd className="text-muted-foreground">{hours}</dd>
+                      </React.Fragment>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Menu */}
+            {restaurant.menu && restaurant.menu.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Menu</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-1 text-sm">
+                    {restaurant.menu.map(item => (
+                      <li key={item.name} className="flex items-center gap-2">
+                        {item.name}
+                        {item.veg && <Leaf className="w-3 h-3 text-green-600" aria-label="Vegetarian" />}
+                        {item.jain && <span className="text-xs text-green-700">Jain</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestaurantDetail;
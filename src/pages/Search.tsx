@@ -1,13 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
-import { MapPin, Search as SearchIcon, Loader2, Star, DollarSign, Clock, Phone, Globe } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MapPin, Search as SearchIcon, Loader2, Star, DollarSign, Clock, Phone, Globe, Info, UtensilsCrossed, X, LayoutGrid, Map as MapIcon, Link2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { LocationService } from '@/lib/location-service';
+import type { OpeningHours } from '@/lib/opening-hours';
+import type { TravelTime } from '@/lib/distance';
+import type { ScoreComponent } from '@/components/RestaurantCard';
+import { streamSearch } from '@/lib/search-stream';
+import { CUISINE_OPTIONS } from '@/lib/cuisines';
+import { DEFAULT_SORT_ORDER, SORT_OPTIONS, isSortOrder, sortRestaurants, type SortOrder } from '@/lib/sort-restaurants';
+import { DEFAULT_FILTERS, readSearchUrl, readViewMode, writeSearchUrl, type SearchFilters, type SearchUrlState, type ViewMode } from '@/lib/search-url';
+import { toStoredSearch } from '@/lib/search-history';
+import { preferencesToFilters, toTasteProfile } from '@/lib/preferences';
+import { MAX_COMPARED, type ComparedRestaurant } from '@/lib/compare';
 import { RestaurantCard } from '@/components/RestaurantCard';
+import { RestaurantMap } from '@/components/RestaurantMap';
+import { ProfileMenu } from '@/components/ProfileMenu';
+import { RecentSearches } from '@/components/RecentSearches';
+import { ChatPanel } from '@/components/ChatPanel';
+import { QuerySearch } from '@/components/QuerySearch';
+import { CompareDrawer } from '@/components/CompareDrawer';
+import { useAuth } from '@/hooks/use-auth';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { usePreferences } from '@/hooks/use-preferences';
 import { supabase } from '@/integrations/supabase/client';
 import heroImage from '@/assets/hero-food.jpg';
 
@@ -16,6 +39,7 @@ interface Restaurant {
   place_id: string;
   name: string;
   rating: number;
+  user_ratings_total?: number | null;
   price_level: number;
   formatted_address: string;
   location: { lat: number; lng: number };
@@ -23,52 +47,159 @@ interface Restaurant {
   phone_number?: string;
   website?: string;
   types?: string[];
+  opening_hours?: OpeningHours | null;
   ai_summary?: {
     rank_score: number;
     short_summary: string;
     pros: string[];
     cons: string[];
+    dishes_to_try?: string[];
+    cuisines?: string[];
+    matching_menu_items?: string[];
     top_positive_quote?: string;
     top_negative_quote?: string;
     confidence: number;
   };
+  ai_summary_error?: string;
+  cuisine_match?: {
+    cuisines: string[];
+    explanation: string;
+  } | null;
+  taste_match?: {
+    value: number;
+    signals: string[];
+  } | null;
+  group_match?: {
+    value: number;
+    members: Array<{ name: string; value: number; signals: string[] }>;
+  } | null;
+  dietary?: {
+    veg_only: boolean;
+    veg_confidence: 'low' | 'medium' | 'high';
+    jain_food: boolean;
+    jain_confidence: 'low' | 'medium' | 'high';
+    signals: string[];
+  };
+  dietary_fit?: 'match' | 'unknown' | 'mismatch';
+  dish_matches?: Array<{
+    dish: string;
+    matched: string;
+    source: 'menu' | 'reviews' | 'known';
+    evidence?: string;
+  }>;
+  distance_meters?: number;
+  travel_time?: TravelTime;
+  score_breakdown?: ScoreComponent[];
+  total_score?: number;
 }
 
-interface SearchFilters {
-  maxPrice: number;
-  maxDistance: number;
-  cuisine: string[];
-  vegOnly: boolean;
-  jainFood: boolean;
-}
-
-
-
-const CUISINE_OPTIONS = [
-  'Italian', 'Mexican', 'Chinese', 'Japanese', 'Indian', 'Thai', 'American', 
-  'French', 'Mediterranean', 'Korean', 'Vietnamese', 'Greek', 'Spanish'
-];
-
 const RestaurantSearch = () => {
-  const [location, setLocation] = useState('');
-  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
+  // A shared link restores the whole search and runs it on load
+  const [urlParams, setUrlParams] = useSearchParams();
+  const [initialSearch] = useState(() => readSearchUrl(urlParams));
+  const [location, setLocation] = useState(initialSearch?.location ?? '');
+  const [dishInput, setDishInput] = useState('');
+  const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(initialSearch?.coordinates ?? null);
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
-  const [filters, setFilters] = useState<SearchFilters>({
-    maxPrice: 4,
-    maxDistance: 10,
-    cuisine: [],
-    vegOnly: false,
-    jainFood: false,
-    menu: []
-  });
+  const [pendingAnalyses, setPendingAnalyses] = useState<Set<string>>(new Set());
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const lastSearchParamsRef = useRef<Record<string, unknown> | null>(null);
+  const pageByPlaceIdRef = useRef<Map<string, number>>(new Map());
+  const pageCountRef = useRef(0);
+  const loadMoreSentinelRef = useRef<HTMLDivElement | null>(null);
+  const [searchArea, setSearchArea] = useState<{ center: { lat: number; lng: number }; radius: number } | null>(null);
+  const [hoveredPlaceId, setHoveredPlaceId] = useState<string | null>(null);
+  const [selectedPlaceId, setSelectedPlaceId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<SearchFilters>(initialSearch?.filters ?? DEFAULT_FILTERS);
+  // Places picked for comparison; kept across searches so places from
+  // different areas can be compared
+  const [compared, setCompared] = useState<ComparedRestaurant[]>([]);
   
   const { toast } = useToast();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const { refresh: refreshHistory } = useSearchHistory(20);
+  const { preferences, isLoading: isPreferencesLoading } = usePreferences();
+
+  // Sort order and view mode are client-side only, so they live in the URL
+  // without re-running the search
+  const sortParam = urlParams.get('sort');
+  const sortOrder: SortOrder = isSortOrder(sortParam) ? sortParam : DEFAULT_SORT_ORDER;
+  const viewMode = readViewMode(urlParams);
+
+  const setUrlParam = (key: string, value: string, defaultValue: string) => {
+    setUrlParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === defaultValue) next.delete(key);
+      else next.set(key, value);
+      return next;
+    }, { replace: true });
+  };
+
+  const handleSortChange = (value: string) => setUrlParam('sort', value, DEFAULT_SORT_ORDER);
+  const setViewMode = (mode: ViewMode) => setUrlParam('view', mode, 'grid');
+
+  const sortedRestaurants = useMemo(
+    () => sortRestaurants(restaurants, sortOrder, pageByPlaceIdRef.current),
+    [restaurants, sortOrder]
+  );
+
+  // Streams one page of results into the list, skipping places already shown
+  // on an earlier page. Resolves with the number of results on this page.
+  const streamSearchPage = async (
+    searchParams: Record<string, unknown>,
+    page: number,
+    signal: AbortSignal,
+    pageToken?: string
+  ) => {
+    const pageOf = pageByPlaceIdRef.current;
+    let totalFound = 0;
+
+    await streamSearch<Restaurant>({ ...searchParams, page_token: pageToken }, (event) => {
+      switch (event.type) {
+        case 'location':
+          setSearchArea({ center: event.search_location, radius: searchParams.radius as number });
+          break;
+        case 'restaurant': {
+          const { restaurant, stage } = event;
+          if ((pageOf.get(restaurant.place_id) ?? page) !== page) break;
+          pageOf.set(restaurant.place_id, page);
 
-  const handleLocationSearch = async () => {
-    if (!location.trim() && !currentLocation) {
+          // Replace the basic result with the analyzed one
+          setRestaurants(prev => [
+            ...prev.filter(r => r.place_id !== restaurant.place_id),
+            restaurant
+          ]);
+          setPendingAnalyses(prev => {
+            const next = new Set(prev);
+            if (stage === 'basic') next.add(restaurant.place_id);
+            else next.delete(restaurant.place_id);
+            return next;
+          });
+          break;
+        }
+        case 'done':
+          totalFound = event.total_found;
+          setNextPageToken(event.next_page_token ?? null);
+          break;
+        case 'error':
+          throw new Error(event.error);
+      }
+    }, signal);
+
+    return totalFound;
+  };
+
+  // Runs the search in the form, or `search` (e.g. from history) when given
+  const handleLocationSearch = async (search?: SearchUrlState) => {
+    const { location: searchLocation, coordinates, filters: searchFilters } =
+      search ?? { location, coordinates: currentLocation, filters };
+
+    if (!searchLocation.trim() && !coordinates) {
       toast({
         title: "Location Required",
         description: "Please enter a location or use your current location.",
@@ -77,61 +208,73 @@ const RestaurantSearch = () => {
       return;
     }
 
+    // Cancel a search that is still streaming
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setIsLoading(true);
+    setIsLoadingMore(false);
     setHasSearched(true);
+    setRestaurants([]);
+    setPendingAnalyses(new Set());
+    setNextPageToken(null);
+    setSearchArea(null);
+    setHoveredPlaceId(null);
+    setSelectedPlaceId(null);
+    pageByPlaceIdRef.current = new Map();
+    pageCountRef.current = 1;
+
+    // New history entry per search, except when re-running the same one
+    const nextUrlParams = writeSearchUrl(urlParams, { location: searchLocation, coordinates, filters: searchFilters });
+    if (nextUrlParams.toString() !== urlParams.toString()) {
+      setUrlParams(nextUrlParams);
+    }
     
     try {
-      const locationToSearch = currentLocation ? `${currentLocation.lat},${currentLocation.lng}` : location.trim();
+      const locationToSearch = coordinates ? `${coordinates.lat},${coordinates.lng}` : searchLocation.trim();
       
       console.log('Searching with location:', locationToSearch);
       
-      // Track user search
+      // Track user search; anonymous unless signed in. The id is made here
+      // so search-restaurants can write the results count back to the row.
+      const searchId = crypto.randomUUID();
       await supabase.from('user_searches').insert({
-        search_location: {
-          lat: currentLocation?.lat,
-          lng: currentLocation?.lng,
-          address: location
-        } as any,
-        filters: filters as any
+        id: searchId,
+        user_id: user?.id ?? null,
+        ...toStoredSearch({ location: searchLocation, coordinates, filters: searchFilters }),
       });
 
       const searchParams = {
         location: locationToSearch,
-        radius: filters.maxDistance * 1000, // meters
-        max_price: filters.maxPrice,
-        cuisine: filters.cuisine.join(','),
-        veg_only: filters.vegOnly,
-        jain_food: filters.jainFood
+        radius: searchFilters.maxDistance * 1000, // meters
+        max_price: searchFilters.maxPrice,
+        cuisine: searchFilters.cuisine.join(','),
+        veg_only: searchFilters.vegOnly,
+        jain_food: searchFilters.jainFood,
+        menu: searchFilters.menu,
+        open_now: searchFilters.openNow,
+        open_at: searchFilters.openAt || undefined,
+        distance_decay: searchFilters.preferNearby,
+        search_id: searchId,
+        profile: preferences ? toTasteProfile(preferences) : undefined
       };
 
 
 
       console.log('Search params:', searchParams);
 
-      const { data, error } = await supabase.functions.invoke('search-restaurants', {
-        body: searchParams
-      });
-
-      console.log('Search response:', data, error);
-
-      if (error) {
-        console.error('Supabase function error:', error);
-        throw new Error(error.message || 'Search failed');
-      }
-
-      if (data?.error) {
-        console.error('Backend error:', data.error);
-        throw new Error(data.error);
-      }
+      lastSearchParamsRef.current = searchParams;
+      const totalFound = await streamSearchPage(searchParams, 0, controller.signal);
 
-      setRestaurants(data.restaurants || []);
-      
       toast({
         title: "Search Complete",
-        description: `Found ${data.restaurants?.length || 0} restaurants nearby!`,
+        description: `Found ${totalFound} restaurants nearby!`,
       });
       
     } catch (error: any) {
+      if (controller.signal.aborted) return;
+
       console.error('Search error:', error);
       
       // Don't clear the location input on error
@@ -145,7 +288,125 @@ const RestaurantSearch = () => {
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === controller) {
+        setIsLoading(false);
+        setPendingAnalyses(new Set());
+      }
+      refreshHistory();
+    }
+  };
+
+  // Fills the form from a history entry or a parsed query, then runs it
+  const handleApplySearch = (search: SearchUrlState) => {
+    setLocation(search.location);
+    setCurrentLocation(search.coordinates);
+    setFilters(search.filters);
+    handleLocationSearch(search);
+  };
+
+  const searchRef = useRef(handleLocationSearch);
+  searchRef.current = handleLocationSearch;
+
+  // Wait for the stored session and profile so a restored search is
+  // personalized and recorded against the user
+  const isProfileReady = !isAuthLoading && !isPreferencesLoading;
+  const hasRestoredRef = useRef(false);
+
+  useEffect(() => {
+    if (!isProfileReady || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+
+    if (initialSearch) {
+      searchRef.current();
+    } else if (preferences) {
+      // A fresh visit starts from the saved profile
+      setFilters(preferencesToFilters(preferences));
+    }
+  }, [initialSearch, isProfileReady, preferences]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with this link will see the same search.",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: "Couldn't access the clipboard. Copy the address bar instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleLoadMore = async () => {
+    const searchParams = lastSearchParamsRef.current;
+    if (!searchParams || !nextPageToken || isLoading || isLoadingMore) return;
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const page = pageCountRef.current++;
+
+    setIsLoadingMore(true);
+
+    try {
+      await streamSearchPage(searchParams, page, controller.signal, nextPageToken);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      console.error('Load more error:', error);
+      toast({
+        title: "Couldn't Load More",
+        description: (error as Error).message || 'There was an error loading more restaurants. Please try again.',
+        variant: "destructive",
+      });
+    } finally {
+      if (searchAbortRef.current === controller) {
+        setIsLoadingMore(false);
+        setPendingAnalyses(new Set());
+      }
+    }
+  };
+
+  // Infinite scroll: load the next page when the sentinel below the grid
+  // comes into view. The ref keeps the observer pointed at the latest handler.
+  const loadMoreRef = useRef(handleLoadMore);
+  loadMoreRef.current = handleLoadMore;
+
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !nextPageToken || isLoading || isLoadingMore) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadMoreRef.current();
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextPageToken, isLoading, isLoadingMore]);
+
+  // Current results replace the stored copies, so AI summaries that stream
+  // in after a place was picked still show up in the comparison
+  const comparedRestaurants = compared.map((place): ComparedRestaurant => {
+    const current = restaurants.find(r => r.place_id === place.place_id);
+    return current ? { ...current, search_origin: searchArea?.center ?? null } : place;
+  });
+
+  const handleCompareChange = (restaurant: Restaurant, checked: boolean) => {
+    setCompared(prev => {
+      const rest = prev.filter(place => place.place_id !== restaurant.place_id);
+      return checked && rest.length < MAX_COMPARED
+        ? [...rest, { ...restaurant, search_origin: searchArea?.center ?? null }]
+        : rest;
+    });
+  };
+
+  // Selecting a marker brings its card into view; selecting a card pans the map
+  const handleSelectRestaurant = (placeId: string, fromMap: boolean) => {
+    setSelectedPlaceId(placeId);
+    if (fromMap) {
+      document.getElementById(`restaurant-${placeId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
   };
 
@@ -180,6 +441,21 @@ const RestaurantSearch = () => {
     }));
   };
 
+  const addDish = () => {
+    const dish = dishInput.trim();
+    if (!dish) return;
+
+    setFilters(prev => ({
+      ...prev,
+      menu: prev.menu.some(d => d.toLowerCase() === dish.toLowerCase()) ? prev.menu : [...prev.menu, dish]
+    }));
+    setDishInput('');
+  };
+
+  const removeDish = (dish: string) => {
+    setFilters(prev => ({ ...prev, menu: prev.menu.filter(d => d !== dish) }));
+  };
+
   const getPriceDisplay = (level: number) => {
     return ''.repeat(level || 1);
   };
@@ -188,6 +464,13 @@ const RestaurantSearch = () => {
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
       {/* Hero Section */}
       <section className="relative overflow-hidden">
+        <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
+          <ChatPanel
+            profile={preferences ? toTasteProfile(preferences) : undefined}
+            defaultLocation={currentLocation ? `${currentLocation.lat},${currentLocation.lng}` : location.trim()}
+          />
+          <ProfileMenu />
+        </div>
         <div 
           className="absolute inset-0 bg-cover bg-center bg-no-repeat"
           style={{ backgroundImage: `url(${heroImage})` }}
@@ -207,6 +490,13 @@ const RestaurantSearch = () => {
             
             {/* Search Section */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Free-text Search - Full Width Above */}
+              <QuerySearch
+                base={{ location, coordinates: currentLocation, filters }}
+                onSearch={handleApplySearch}
+                isSearching={isLoading}
+              />
+
               {/* Location Section - Left Side */}
               <Card className="shadow-warm border-0 bg-card/80 backdrop-blur-sm md:col-span-2">
                 <CardHeader>
@@ -220,7 +510,11 @@ const RestaurantSearch = () => {
                     <Input
                       placeholder="Enter city, address, or zip code..."
                       value={location}
-                      onChange={(e) => setLocation(e.target.value)}
+                      onChange={(e) => {
+                        // Typing replaces coordinates from "Use My Location" or a restored search
+                        setLocation(e.target.value);
+                        setCurrentLocation(null);
+                      }}
                       onKeyPress={(e) => e.key === 'Enter' && handleLocationSearch()}
                       className="flex-1"
                     />
@@ -236,6 +530,46 @@ const RestaurantSearch = () => {
                       )}
                       Use My Location
                     </Button>
+                    <RecentSearches onSelect={handleApplySearch} />
+                  </div>
+
+                  {/* Dishes */}
+                  <div className="space-y-2 text-left">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Dishes you're craving, e.g. masala dosa (press Enter)"
+                        value={dishInput}
+                        onChange={(e) => setDishInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            addDish();
+                          }
+                        }}
+                        className="flex-1"
+                      />
+                      <Button variant="outline" onClick={addDish} disabled={!dishInput.trim()}>
+                        <UtensilsCrossed className="w-4 h-4" />
+                        Add
+                      </Button>
+                    </div>
+                    {filters.menu.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {filters.menu.map((dish) => (
+                          <Badge key={dish} variant="secondary" className="gap-1">
+                            {dish}
+                            <button
+                              type="button"
+                              onClick={() => removeDish(dish)}
+                              aria-label={`Remove ${dish}`}
+                              className="hover:text-destructive"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -275,7 +609,7 @@ const RestaurantSearch = () => {
                 <Button 
                   variant="hero" 
                   size="lg" 
-                  onClick={handleLocationSearch}
+                  onClick={() => handleLocationSearch()}
                   disabled={isLoading}
                   className="w-full"
                 >
@@ -303,7 +637,13 @@ const RestaurantSearch = () => {
           <Card className="mb-8">
             <CardHeader>
               <CardTitle>Refine Your Search</CardTitle>
-              <CardDescription>Customize your dining preferences</CardDescription>
+              <CardDescription>
+                {preferences ? (
+                  <>Personalized with your <Link to="/preferences" className="text-primary hover:underline">saved preferences</Link></>
+                ) : (
+                  'Customize your dining preferences'
+                )}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               {/* Price Range */}
@@ -340,6 +680,15 @@ const RestaurantSearch = () => {
                   step={1}
                   className="w-full"
                 />
+                <label className="flex items-center gap-2 cursor-pointer text-sm mt-3">
+                  <input
+                    type="checkbox"
+                    checked={filters.preferNearby}
+                    onChange={(e) => setFilters(prev => ({ ...prev, preferNearby: e.target.checked }))}
+                    className="form-checkbox"
+                  />
+                  Prefer closer restaurants
+                </label>
               </div>
               {/* Veg / Jain Toggle */}
                 <div className="flex gap-4 items-center">
@@ -352,7 +701,57 @@ const RestaurantSearch = () => {
                     />
                     Veg Only
                   </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={filters.jainFood}
+                      onChange={(e) => setFilters(prev => ({ ...prev, jainFood: e.target.checked }))}
+                      className="form-checkbox"
+                    />
+                    Jain Food
+                  </label>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Info className="w-4 h-4 text-muted-foreground cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      Jain food is strictly vegetarian and avoids root vegetables such as onion, garlic and potato.
+                      Places whose menu or reviews show Jain options come first. Places that clearly can't
+                      cater to it are hidden; ones with no evidence either way are shown lower down.
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+
+              {/* Opening Hours */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">Opening Hours</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    variant={!filters.openNow && !filters.openAt ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setFilters(prev => ({ ...prev, openNow: false, openAt: '' }))}
+                  >
+                    Any Time
+                  </Button>
+                  <Button
+                    variant={filters.openNow ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setFilters(prev => ({ ...prev, openNow: true, openAt: '' }))}
+                  >
+                    <Clock className="w-4 h-4" />
+                    Open Now
+                  </Button>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Open at</span>
+                    <Input
+                      type="time"
+                      value={filters.openAt}
+                      onChange={(e) => setFilters(prev => ({ ...prev, openNow: false, openAt: e.target.value }))}
+                      className="w-32"
+                    />
+                  </div>
                 </div>
+              </div>
 
               {/* Cuisine Types */}
               <div>
@@ -371,7 +770,7 @@ const RestaurantSearch = () => {
                 </div>
               </div>
 
-              <Button onClick={handleLocationSearch} disabled={isLoading} className="w-full">
+              <Button onClick={() => handleLocationSearch()} disabled={isLoading} className="w-full">
                 Update Results
               </Button>
             </CardContent>
@@ -388,13 +787,100 @@ const RestaurantSearch = () => {
                 <h2 className="text-2xl font-bold">
                   Found {restaurants.length} Restaurant{restaurants.length !== 1 ? 's' : ''}
                 </h2>
-                <p className="text-muted-foreground">Ranked by AI analysis & ratings</p>
-              </div>
-              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                {restaurants.map((restaurant) => (
-                  <RestaurantCard key={restaurant.id} restaurant={restaurant} />
-                ))}
+                <div className="flex items-center gap-4">
+                  {pendingAnalyses.size > 0 ? (
+                    <p className="text-muted-foreground flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Analyzing reviews for {pendingAnalyses.size} restaurant{pendingAnalyses.size !== 1 ? 's' : ''}...
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {sortOrder === DEFAULT_SORT_ORDER
+                        ? 'Ranked by AI analysis & ratings'
+                        : `Sorted by ${SORT_OPTIONS.find(option => option.value === sortOrder)?.label.toLowerCase()}`}
+                    </p>
+                  )}
+                  <Select value={sortOrder} onValueChange={handleSortChange}>
+                    <SelectTrigger className="w-44" aria-label="Sort results">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SORT_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ToggleGroup
+                    type="single"
+                    value={viewMode}
+                    onValueChange={(value) => value && setViewMode(value as ViewMode)}
+                    variant="outline"
+                    size="sm"
+                  >
+                    <ToggleGroupItem value="grid" aria-label="Grid view">
+                      <LayoutGrid className="w-4 h-4" />
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="map" aria-label="Map view" disabled={!searchArea}>
+                      <MapIcon className="w-4 h-4" />
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                  <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                    <Link2 className="w-4 h-4" />
+                    Copy link
+                  </Button>
+                </div>
               </div>
+              {viewMode === 'map' && searchArea ? (
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <div className="h-[400px] lg:h-[calc(100vh-6rem)] lg:sticky lg:top-4">
+                    <RestaurantMap
+                      restaurants={sortedRestaurants}
+                      center={searchArea.center}
+                      radiusMeters={searchArea.radius}
+                      hoveredPlaceId={hoveredPlaceId}
+                      selectedPlaceId={selectedPlaceId}
+                      onHoverChange={setHoveredPlaceId}
+                      onSelect={(placeId) => handleSelectRestaurant(placeId, true)}
+                    />
+                  </div>
+                  <div className="grid gap-6 content-start">
+                    {sortedRestaurants.map((restaurant) => (
+                      <RestaurantCard
+                        key={restaurant.id}
+                        restaurant={restaurant}
+                        highlighted={restaurant.place_id === hoveredPlaceId || restaurant.place_id === selectedPlaceId}
+                        onHoverChange={(hovered) => setHoveredPlaceId(hovered ? restaurant.place_id : null)}
+                        onSelect={() => handleSelectRestaurant(restaurant.place_id, false)}
+                        compared={compared.some(place => place.place_id === restaurant.place_id)}
+                        compareDisabled={compared.length >= MAX_COMPARED}
+                        onCompareChange={(checked) => handleCompareChange(restaurant, checked)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {sortedRestaurants.map((restaurant) => (
+                    <RestaurantCard
+                      key={restaurant.id}
+                      restaurant={restaurant}
+                      compared={compared.some(place => place.place_id === restaurant.place_id)}
+                      compareDisabled={compared.length >= MAX_COMPARED}
+                      onCompareChange={(checked) => handleCompareChange(restaurant, checked)}
+                    />
+                  ))}
+                </div>
+              )}
+              {nextPageToken && !isLoading && (
+                <div ref={loadMoreSentinelRef} className="flex justify-center mt-8">
+                  <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                    {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {isLoadingMore ? 'Loading more...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
             </>
           ) : !isLoading && (
             <Card className="text-center py-12">
@@ -409,6 +895,12 @@ const RestaurantSearch = () => {
           )}
         </section>
       )}
+
+      <CompareDrawer
+        restaurants={comparedRestaurants}
+        onRemove={(placeId) => setCompared(prev => prev.filter(place => place.place_id !== placeId))}
+        onClear={() => setCompared([])}
+      />
     </div>
   );
 };
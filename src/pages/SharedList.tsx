@@ -0,0 +1,85 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertCircle, ArrowLeft, Loader2, MapPin } from 'lucide-react';
+import { fetchSharedList } from '@/lib/lists';
+
+// Read-only view of a list shared by link; works without signing in
+const SharedList = () => {
+  const { shareToken = '' } = useParams();
+  const { data: list, isLoading, error } = useQuery({
+    queryKey: ['shared-list', shareToken],
+    queryFn: () => fetchSharedList(shareToken),
+    enabled: !!shareToken,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-muted-foreground gap-2">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        Loading list...
+      </div>
+    );
+  }
+
+  if (error || !list) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 text-center px-4">
+        <AlertCircle className="w-10 h-10 text-muted-foreground" />
+        <p className="text-lg font-semibold">This list isn't available</p>
+        <p className="text-muted-foreground">
+          {(error as Error | null)?.message ?? 'The link is wrong or the owner stopped sharing it.'}
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/"><ArrowLeft className="w-4 h-4" /> Find restaurants</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/"><ArrowLeft className="w-4 h-4" /> Find restaurants</Link>
+        </Button>
+        <div>
+          <h1 className="text-4xl font-bold">{list.name}</h1>
+          <p className="text-muted-foreground">
+            Shared list · {list.items.length} {list.items.length === 1 ? 'place' : 'places'} · updated{' '}
+            {new Date(list.updated_at).toLocaleDateString()}
+          </p>
+        </div>
+
+        {list.items.length > 0 ? (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {list.items.map(item => (
+              <Card key={item.place_id} className="overflow-hidden">
+                {item.photo && <img src={item.photo} alt={item.name} className="w-full h-40 object-cover" />}
+                <CardContent className="pt-4 space-y-1">
+                  <Link
+                    to={`/restaurant/${encodeURIComponent(item.place_id)}`}
+                    className="font-semibold hover:text-primary hover:underline"
+                  >
+                    {item.name}
+                  </Link>
+                  {item.formatted_address && (
+                    <p className="text-sm text-muted-foreground flex items-start gap-1">
+                      <MapPin className="w-3 h-3 mt-1 flex-shrink-0" />
+                      {item.formatted_address}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-8">This list is empty.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedList;
@@ -0,0 +1,309 @@
+import type { ChatMessage, ToolCall, ToolDefinition } from './llm/index.ts';
+import type { TasteProfile } from './profile.ts';
+import {
+  normalizeSearchParams,
+  runSearch,
+  type RestaurantResult,
+  type SearchContext,
+  type SearchParams,
+} from './search.ts';
+
+const MAX_TOOL_ROUNDS = 3;
+const MAX_HISTORY_MESSAGES = 30;
+const MAX_SAVE_ATTEMPTS = 3;
+const MAX_RESULTS_FOR_MODEL = 8;
+const DEFAULT_CITATIONS = 3;
+
+export const SEARCH_TOOL: ToolDefinition = {
+  name: 'search_restaurants',
+  description: 'Search for restaurants around a location. Call it again with changed arguments to refine a previous search.',
+  parameters: {
+    type: 'object',
+    properties: {
+      location: { type: 'string', description: 'Neighbourhood, address or city to search around, or "lat,lng"' },
+      radius_km: { type: 'number', description: 'Search radius in kilometres, 1-25. Defaults to 5' },
+      max_price: { type: 'integer', description: 'Highest price level, from 1 (cheap) to 4 (fine dining)' },
+      cuisine: { type: 'string', description: 'Comma-separated cuisines, e.g. "Indian,Chinese"' },
+      veg_only: { type: 'boolean', description: 'Only vegetarian restaurants' },
+      jain_food: { type: 'boolean', description: 'Only restaurants with Jain food' },
+      menu: { type: 'array', items: { type: 'string' }, description: 'Specific dishes the user wants' },
+      open_now: { type: 'boolean', description: 'Only places open right now' },
+      open_at: { type: 'string', description: 'Only places open at this local time today, 24-hour "HH:MM"' },
+      sort_by: { type: 'string', enum: ['score', 'distance'], description: 'Best match (default) or nearest first' },
+    },
+    required: ['location'],
+  },
+};
+
+export interface Citation {
+  n: number;                  // the [#n] marker used in the reply
+  restaurant: RestaurantResult;
+}
+
+export interface AgentTurn {
+  reply: string;
+  citations: Citation[];
+  search?: SearchParams;      // arguments of the last search run this turn
+  messages: StoredMessage[];  // everything this turn added to the conversation
+}
+
+// An agent_messages row. Tool rows keep the full results so later turns can
+// cite them; assistant rows keep the citations shown as cards.
+export interface StoredMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: ToolCall[] | null;
+  tool_call_id?: string | null;
+  tool_name?: string | null;
+  restaurants?: RestaurantResult[] | Citation[] | null;
+}
+
+export interface AgentOptions {
+  profile?: Partial<TasteProfile>;
+  default_location?: string;  // used when the user doesn't say where
+}
+
+const buildSystemPrompt = ({ default_location }: AgentOptions) => `You are a friendly restaurant-finding assistant.
+Use the search_restaurants tool to find places; never invent restaurants, ratings or opening hours.
+Turn the user's request into tool arguments: "cheap" is max_price 1-2, "after 10pm" is open_at "22:00", dishes go in menu.
+For follow-ups like "cheaper" or "closer", call the tool again with the previous arguments adjusted.
+${default_location
+  ? `If the user doesn't say where, search around: ${default_location}.`
+  : "If the user doesn't say where, ask for a neighbourhood or city before searching."}
+Answer in 2-4 short sentences. Cite each restaurant you mention with its number from the tool result, like [#1].
+If nothing matches, say so and suggest what to relax.`;
+
+// Picks the documented arguments out of a tool call, ignoring anything else
+// the model made up; normalizeSearchParams validates the values
+export const toSearchParams = (args: Record<string, unknown>, options: AgentOptions): SearchParams => {
+  const location = typeof args.location === 'string' && args.location.trim()
+    ? args.location.trim()
+    : options.default_location;
+  if (!location) {
+    throw new Error('location is required');
+  }
+
+  const radiusKm = typeof args.radius_km === 'number' ? Math.min(25, Math.max(1, args.radius_km)) : 5;
+
+  return {
+    location,
+    radius: Math.round(radiusKm * 1000),
+    ...(typeof args.max_price === 'number' && { max_price: Math.min(4, Math.max(1, Math.round(args.max_price))) }),
+    ...(typeof args.cuisine === 'string' && { cuisine: args.cuisine }),
+    ...(typeof args.veg_only === 'boolean' && { veg_only: args.veg_only }),
+    ...(typeof args.jain_food === 'boolean' && { jain_food: args.jain_food }),
+    ...(Array.isArray(args.menu) && { menu: args.menu.filter((dish): dish is string => typeof dish === 'string') }),
+    ...(typeof args.open_now === 'boolean' && { open_now: args.open_now }),
+    ...(typeof args.open_at === 'string' && args.open_at && { open_at: args.open_at }),
+    ...((args.sort_by === 'score' || args.sort_by === 'distance') && { sort_by: args.sort_by }),
+    ...(options.profile && { profile: options.profile }),
+  };
+};
+
+// What the model sees of a search: enough to answer and cite, not the raw rows
+const summarizeResults = (restaurants: RestaurantResult[]) => JSON.stringify({
+  total_found: restaurants.length,
+  results: restaurants.slice(0, MAX_RESULTS_FOR_MODEL).map((restaurant, index) => ({
+    n: index + 1,
+    name: restaurant.name,
+    rating: restaurant.rating,
+    price_level: restaurant.price_level,
+    distance_km: Math.round(restaurant.distance_meters / 100) / 10,
+    match_score: restaurant.total_score,
+    veg_only: restaurant.dietary.veg_only,
+    jain_food: restaurant.dietary.jain_food,
+    dishes_found: restaurant.dish_matches.map(match => match.matched),
+    summary: restaurant.ai_summary?.short_summary,
+  })),
+});
+
+// [#n] markers in the reply, in order of first mention
+export const parseCitations = (reply: string, restaurants: RestaurantResult[]): Citation[] => {
+  const seen = new Set<number>();
+  for (const match of reply.matchAll(/\[#(\d+)\]/g)) {
+    const n = Number(match[1]);
+    if (n >= 1 && n <= restaurants.length) seen.add(n);
+  }
+  return [...seen].map(n => ({ n, restaurant: restaurants[n - 1] }));
+};
+
+const toChatMessage = (message: StoredMessage): ChatMessage => {
+  switch (message.role) {
+    case 'assistant':
+      return { role: 'assistant', content: message.content, tool_calls: message.tool_calls ?? undefined };
+    case 'tool':
+      return { role: 'tool', content: message.content, tool_call_id: message.tool_call_id ?? '', name: message.tool_name ?? '' };
+    default:
+      return { role: 'user', content: message.content };
+  }
+};
+
+// The last MAX_HISTORY_MESSAGES messages, starting at a user turn: a window
+// opening on a tool result, or on tool calls whose results were cut off, is
+// rejected by the chat APIs
+const recentHistory = (history: StoredMessage[]): StoredMessage[] => {
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  const start = recent.findIndex(message => message.role === 'user');
+  return start === -1 ? [] : recent.slice(start);
+};
+
+// Results of the most recent search, so follow-ups can cite them without
+// searching again
+const latestResults = (history: StoredMessage[]): RestaurantResult[] => {
+  const tool = [...history].reverse().find(message => message.role === 'tool' && message.restaurants);
+  return (tool?.restaurants as RestaurantResult[] | undefined) ?? [];
+};
+
+// Runs one user turn: lets the model call search_restaurants (up to
+// MAX_TOOL_ROUNDS times, e.g. to widen a search that found nothing) and
+// returns its answer with the restaurants it cited.
+export const runAgentTurn = async (
+  context: SearchContext,
+  history: StoredMessage[],
+  userMessage: string,
+  options: AgentOptions = {},
+): Promise<AgentTurn> => {
+  const added: StoredMessage[] = [{ role: 'user', content: userMessage }];
+  const messages: ChatMessage[] = [
+    { role: 'system', content: buildSystemPrompt(options) },
+    ...recentHistory(history).map(toChatMessage),
+    { role: 'user', content: userMessage },
+  ];
+  let results = latestResults(history);
+  let search: SearchParams | undefined;
+
+  for (let round = 1; ; round++) {
+    // The last round has no tools, so the model has to answer
+    const response = await context.llm.chat({
+      messages,
+      tools: round <= MAX_TOOL_ROUNDS ? [SEARCH_TOOL] : [],
+      temperature: 0.3,
+    });
+
+    if (response.tool_calls.length === 0) {
+      const reply = response.content || "Sorry, I couldn't come up with an answer. Could you rephrase that?";
+      const cited = parseCitations(reply, results);
+      // Show the top results when a search ran but the model cited nothing
+      const citations = cited.length > 0 || !search
+        ? cited
+        : results.slice(0, DEFAULT_CITATIONS).map((restaurant, index) => ({ n: index + 1, restaurant }));
+
+      added.push({ role: 'assistant', content: reply, restaurants: citations });
+      return { reply, citations, search, messages: added };
+    }
+
+    messages.push({ role: 'assistant', content: response.content, tool_calls: response.tool_calls });
+    added.push({ role: 'assistant', content: response.content, tool_calls: response.tool_calls });
+
+    for (const call of response.tool_calls) {
+      let content: string;
+      let toolResults: RestaurantResult[] | null = null;
+
+      try {
+        if (call.name !== SEARCH_TOOL.name) {
+          throw new Error(`Unknown tool: ${call.name}`);
+        }
+        const params = toSearchParams(call.arguments, options);
+        const { restaurants } = await runSearch(context, normalizeSearchParams(params));
+        search = params;
+        results = restaurants;
+        toolResults = restaurants;
+        content = summarizeResults(restaurants);
+      } catch (error) {
+        console.error(`Tool call ${call.name} failed:`, error);
+        content = JSON.stringify({ error: (error as Error).message });
+      }
+
+      messages.push({ role: 'tool', content, tool_call_id: call.id, name: call.name });
+      added.push({ role: 'tool', content, tool_call_id: call.id, tool_name: call.name, restaurants: toolResults });
+    }
+  }
+};
+
+export interface Conversation {
+  id: string;
+  user_id: string | null;
+}
+
+// Messages the chat panel shows: user turns and final answers
+export const visibleMessages = (messages: StoredMessage[]) => messages
+  .filter(message => message.role === 'user' || (message.role === 'assistant' && !message.tool_calls?.length))
+  .map(message => ({
+    role: message.role,
+    content: message.content,
+    citations: message.role === 'assistant' ? (message.restaurants as Citation[] | null) ?? [] : [],
+  }));
+
+export const loadConversation = async (
+  { supabase }: SearchContext,
+  conversationId: string,
+): Promise<{ conversation: Conversation; messages: StoredMessage[] } | null> => {
+  const { data: conversation, error } = await supabase
+    .from('agent_conversations')
+    .select('id, user_id')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!conversation) return null;
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('agent_messages')
+    .select('role, content, tool_calls, tool_call_id, tool_name, restaurants')
+    .eq('conversation_id', conversationId)
+    .order('position', { ascending: true });
+
+  if (messagesError) throw new Error(messagesError.message);
+
+  return { conversation, messages: messages ?? [] };
+};
+
+export const createConversation = async (
+  { supabase }: SearchContext,
+  userId: string | null,
+  title: string,
+): Promise<Conversation> => {
+  const { data, error } = await supabase
+    .from('agent_conversations')
+    .insert({ user_id: userId, title: title.slice(0, 80) })
+    .select('id, user_id')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+// Appends a turn's messages after those already stored. Positions are read
+// just before inserting; if another turn of the same conversation took them
+// in the meantime the unique (conversation_id, position) constraint fails
+// the insert and it is retried after the other turn.
+export const saveMessages = async (
+  { supabase }: SearchContext,
+  conversationId: string,
+  messages: StoredMessage[],
+) => {
+  for (let attempt = 1; ; attempt++) {
+    const { data: last, error: lastError } = await supabase
+      .from('agent_messages')
+      .select('position')
+      .eq('conversation_id', conversationId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (lastError) throw new Error(lastError.message);
+
+    const offset = (last?.position ?? -1) + 1;
+    const { error } = await supabase.from('agent_messages').insert(
+      messages.map((message, index) => ({ conversation_id: conversationId, position: offset + index, ...message }))
+    );
+    if (!error) break;
+    // 23505: unique_violation
+    if (error.code !== '23505' || attempt >= MAX_SAVE_ATTEMPTS) throw new Error(error.message);
+  }
+
+  const { error: touchError } = await supabase
+    .from('agent_conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', conversationId);
+  if (touchError) throw new Error(touchError.message);
+};
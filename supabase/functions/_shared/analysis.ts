@@ -0,0 +1,149 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+import type { LLMClient } from './llm/index.ts';
+
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+const stringList = z.array(z.coerce.string()).catch([]);
+
+// Numbers are coerced and clamped rather than rejected: models often quote
+// numbers ("85") or give confidence as a percentage, which is still usable.
+export const GeminiAnalysisSchema = z.object({
+  place_id: z.string().optional(),
+  rank_score: z.coerce.number().transform(n => Math.round(Math.max(0, Math.min(100, n)))),
+  short_summary: z.string().trim().min(1),
+  pros: stringList,
+  cons: stringList,
+  dishes_to_try: stringList.default([]),
+  matching_menu_items: stringList.default([]),
+  cuisines: stringList.default([]),
+  top_positive_quote: z.string().nullish(),
+  top_negative_quote: z.string().nullish(),
+  confidence: z.coerce.number().transform(n => Math.max(0, Math.min(1, n > 1 ? n / 100 : n))),
+});
+
+export type GeminiAnalysis = z.infer<typeof GeminiAnalysisSchema>;
+
+export type AnalysisResult =
+  | { ok: true; analysis: GeminiAnalysis }
+  | { ok: false; reason: string };
+
+export interface AnalysisInput {
+  place_id: string;
+  name: string;
+  rating: number;
+  price_level: number;
+  cuisine: string;
+  address: string;
+  reviews: string[];
+  filters: {
+    veg_only: boolean;
+    jain_food: boolean;
+    menu: string[];
+    dietary_needs: string[];      // from the user's profile, e.g. "halal"
+    allergens: string[];
+  };
+}
+
+const OUTPUT_TEMPLATE = (placeId: string) => `{
+  "place_id": ${JSON.stringify(placeId)},
+  "rank_score": <0-100>,
+  "short_summary": "<1-2 sentences based on reviews, rating, hygiene>",
+  "pros": ["...","..."],
+  "cons": ["...","..."],
+  "dishes_to_try": ["Dish 1","Dish 2","Dish 3"],
+  "matching_menu_items": ["Dish from user menu if available"],
+  "cuisines": ["Cuisine 1"],
+  "top_positive_quote": "<short excerpt>",
+  "top_negative_quote": "<short excerpt>",
+  "confidence": <0-1>
+}`;
+
+// Input values are serialized with JSON.stringify so names, addresses and
+// reviews containing quotes cannot break the prompt's JSON structure.
+export const buildAnalysisPrompt = (input: AnalysisInput): string => `You are an assistant that MUST return JSON only.
+Make sure this summary is unique for ${input.name} and not copied from other restaurants based ONLY on the provided reviews, rating, price_level, and cuisine.
+Do not invent facts. Do not copy summaries across restaurants.
+Summaries must be short (max 2 sentences).
+Include a list of suggested dishes to try based on reviews and filters (veg_only if selected).
+Also, if user has provided a menu, highlight matching dishes from the menu that the restaurant offers.
+If the user has dietary_needs or allergens, only suggest dishes that suit them and mention in cons any review evidence that the restaurant may not.
+List the cuisines the restaurant serves (e.g. "Italian", "South Indian") as evidenced by the reviews and name.
+
+Input:
+${JSON.stringify(input, null, 2)}
+
+Output (strict JSON):
+${OUTPUT_TEMPLATE(input.place_id)}`;
+
+const buildStrictRetryPrompt = (input: AnalysisInput, previousError: string): string => `${buildAnalysisPrompt(input)}
+
+Your previous answer could not be used: ${previousError}
+Respond with exactly ONE JSON object matching the output shape above.
+No markdown, no code fences, no comments, no text before or after the JSON.
+"rank_score" must be a number from 0 to 100 and "confidence" a number from 0 to 1.`;
+
+// Best-effort fix-ups for near-JSON model output: code fences, prose around
+// the object, smart quotes and trailing commas.
+export const repairJson = (text: string): string => {
+  let repaired = text.replace(/```(?:json)?\n?/gi, '').trim();
+
+  const start = repaired.indexOf('{');
+  const end = repaired.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    repaired = repaired.slice(start, end + 1);
+  }
+
+  return repaired
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/,\s*([}\]])/g, '$1');
+};
+
+export const parseAnalysis = (text: string): AnalysisResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(repairJson(text));
+  } catch (error) {
+    return { ok: false, reason: `Invalid JSON: ${(error as Error).message}` };
+  }
+
+  const parsed = GeminiAnalysisSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    return { ok: false, reason: `Schema mismatch: ${issues.join('; ')}` };
+  }
+
+  return { ok: true, analysis: parsed.data };
+};
+
+export const analyzeRestaurant = async (llm: LLMClient, input: AnalysisInput): Promise<AnalysisResult> => {
+  let result: AnalysisResult = { ok: false, reason: 'Analysis was not attempted' };
+
+  for (let attempt = 1; attempt <= MAX_ANALYSIS_ATTEMPTS; attempt++) {
+    const prompt = attempt === 1 ? buildAnalysisPrompt(input) : buildStrictRetryPrompt(input, result.ok ? '' : result.reason);
+
+    try {
+      const responseText = await llm.generate({
+        prompt,
+        temperature: attempt === 1 ? 0.2 : 0,
+        maxOutputTokens: 1000,
+        json: attempt > 1,
+      });
+
+      // Log the raw text the model returned
+      console.log(`${llm.name} raw text output (attempt ${attempt}):`, responseText);
+
+      result = parseAnalysis(responseText);
+    } catch (error) {
+      result = { ok: false, reason: `LLM request failed: ${(error as Error).message}` };
+    }
+
+    if (result.ok) {
+      return result;
+    }
+
+    console.warn(`AI analysis attempt ${attempt} for ${input.name} failed: ${result.reason}`);
+  }
+
+  return result;
+};
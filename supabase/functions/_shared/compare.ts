@@ -0,0 +1,127 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+import type { LLMClient } from './llm/index.ts';
+import { repairJson } from './analysis.ts';
+import type { AiSummaryRow, RestaurantRow, SearchContext } from './search.ts';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 4;
+export const MAX_OCCASION_LENGTH = 200;
+
+const MAX_VERDICT_ATTEMPTS = 2;
+
+const VerdictSchema = z.object({
+  pick_place_id: z.string().nullish(),
+  verdict: z.string().trim().min(1),
+  notes: z.array(z.object({ place_id: z.string(), note: z.string().trim() })).catch([]),
+});
+
+export interface Verdict {
+  pick_place_id: string | null;   // null when the model couldn't choose
+  verdict: string;
+  notes: Array<{ place_id: string; note: string }>;   // one line per place
+}
+
+export interface ComparedPlace {
+  restaurant: RestaurantRow;
+  ai_summary: AiSummaryRow | null;
+}
+
+// Only what the verdict needs; full reviews were already condensed into
+// the AI summary when the place was searched for
+const toPromptPlace = ({ restaurant, ai_summary }: ComparedPlace) => ({
+  place_id: restaurant.place_id,
+  name: restaurant.name,
+  rating: restaurant.rating,
+  user_ratings_total: restaurant.user_ratings_total,
+  price_level: restaurant.price_level,
+  address: restaurant.formatted_address,
+  veg_only: restaurant.veg_only,
+  jain_food: restaurant.jain_food,
+  summary: ai_summary?.short_summary,
+  pros: ai_summary?.pros ?? [],
+  cons: ai_summary?.cons ?? [],
+  dishes_to_try: ai_summary?.dishes_to_try ?? [],
+  cuisines: ai_summary?.cuisines ?? [],
+});
+
+// Input values are serialized with JSON.stringify, as in the analysis
+// prompt, so names and the occasion can't break the JSON structure
+const buildVerdictPrompt = (occasion: string, places: ComparedPlace[]) => `You are an assistant that MUST return JSON only.
+Compare these restaurants and pick the best one for the occasion below, based ONLY on the data given.
+Do not invent facts. Keep the verdict to 2 sentences and each note to 1 short sentence.
+
+Occasion: ${JSON.stringify(occasion)}
+
+Restaurants:
+${JSON.stringify(places.map(toPromptPlace), null, 2)}
+
+Output (strict JSON):
+{
+  "pick_place_id": "<place_id of the best choice>",
+  "verdict": "<why it is the best pick for the occasion>",
+  "notes": [{ "place_id": "<place_id>", "note": "<its main strength or drawback for the occasion>" }]
+}`;
+
+export const parseVerdict = (text: string, placeIds: string[]): Verdict | null => {
+  let json: unknown;
+  try {
+    json = JSON.parse(repairJson(text));
+  } catch {
+    return null;
+  }
+
+  const parsed = VerdictSchema.safeParse(json);
+  if (!parsed.success) {
+    return null;
+  }
+
+  // Ignore places the model made up
+  const { pick_place_id, verdict, notes } = parsed.data;
+  return {
+    pick_place_id: pick_place_id && placeIds.includes(pick_place_id) ? pick_place_id : null,
+    verdict,
+    notes: notes.filter(note => placeIds.includes(note.place_id) && note.note),
+  };
+};
+
+export const generateVerdict = async (llm: LLMClient, occasion: string, places: ComparedPlace[]): Promise<Verdict> => {
+  const placeIds = places.map(place => place.restaurant.place_id);
+
+  for (let attempt = 1; attempt <= MAX_VERDICT_ATTEMPTS; attempt++) {
+    const text = await llm.generate({
+      prompt: buildVerdictPrompt(occasion, places),
+      temperature: attempt === 1 ? 0.3 : 0,
+      maxOutputTokens: 600,
+      json: true,
+    });
+
+    const verdict = parseVerdict(text, placeIds);
+    if (verdict) {
+      return verdict;
+    }
+    console.warn(`${llm.name} returned an unusable verdict (attempt ${attempt}):`, text);
+  }
+
+  throw new Error('Could not generate a verdict');
+};
+
+// Cached rows only: compared places come from search results, which were
+// all stored when they were searched for. Only neutral summaries are used;
+// tailored ones belong to whoever searched.
+export const loadComparedPlaces = async ({ supabase }: SearchContext, placeIds: string[]): Promise<ComparedPlace[]> => {
+  const [{ data: restaurants, error }, { data: summaries, error: summariesError }] = await Promise.all([
+    supabase.from('restaurants').select('*').in('place_id', placeIds),
+    supabase.from('restaurant_ai_summaries').select('*').in('place_id', placeIds).eq('preferences_key', ''),
+  ]);
+
+  if (error) throw new Error(error.message);
+  if (summariesError) throw new Error(summariesError.message);
+
+  return placeIds
+    .map(placeId => restaurants?.find(row => row.place_id === placeId))
+    .filter((restaurant): restaurant is RestaurantRow => !!restaurant)
+    .map(restaurant => ({
+      restaurant,
+      ai_summary: summaries?.find(row => row.place_id === restaurant.place_id) ?? null,
+    }));
+};
@@ -0,0 +1,101 @@
+interface CuisineDefinition {
+  label: string;
+  keyword: string;            // Nearby Search keyword
+  types: string[];            // Places types that imply this cuisine
+  aliases: string[];          // words in names / AI output that imply it
+}
+
+// Keys match the CUISINE_OPTIONS offered by the search page, lower-cased
+const CUISINES: Record<string, CuisineDefinition> = {
+  italian: { label: 'Italian', keyword: 'italian', types: ['italian_restaurant', 'pizza_restaurant'], aliases: ['italian', 'pizza', 'pizzeria', 'pasta', 'trattoria', 'osteria'] },
+  mexican: { label: 'Mexican', keyword: 'mexican', types: ['mexican_restaurant'], aliases: ['mexican', 'taco', 'tacos', 'burrito', 'taqueria', 'cantina'] },
+  chinese: { label: 'Chinese', keyword: 'chinese', types: ['chinese_restaurant'], aliases: ['chinese', 'indo-chinese', 'szechuan', 'schezwan', 'cantonese', 'dim sum', 'wok'] },
+  japanese: { label: 'Japanese', keyword: 'japanese', types: ['japanese_restaurant', 'sushi_restaurant', 'ramen_restaurant'], aliases: ['japanese', 'sushi', 'ramen', 'izakaya', 'teppanyaki'] },
+  indian: { label: 'Indian', keyword: 'indian', types: ['indian_restaurant'], aliases: ['indian', 'punjabi', 'gujarati', 'south indian', 'udupi', 'mughlai', 'thali', 'biryani', 'bhojanalay'] },
+  thai: { label: 'Thai', keyword: 'thai', types: ['thai_restaurant'], aliases: ['thai'] },
+  american: { label: 'American', keyword: 'american', types: ['american_restaurant', 'hamburger_restaurant', 'steak_house', 'barbecue_restaurant'], aliases: ['american', 'burger', 'diner', 'bbq', 'steakhouse'] },
+  french: { label: 'French', keyword: 'french', types: ['french_restaurant'], aliases: ['french', 'bistro', 'brasserie', 'patisserie'] },
+  mediterranean: { label: 'Mediterranean', keyword: 'mediterranean', types: ['mediterranean_restaurant', 'middle_eastern_restaurant', 'lebanese_restaurant'], aliases: ['mediterranean', 'lebanese', 'falafel', 'shawarma', 'mezze'] },
+  korean: { label: 'Korean', keyword: 'korean', types: ['korean_restaurant'], aliases: ['korean', 'bibimbap', 'kimchi'] },
+  vietnamese: { label: 'Vietnamese', keyword: 'vietnamese', types: ['vietnamese_restaurant'], aliases: ['vietnamese', 'pho', 'banh mi'] },
+  greek: { label: 'Greek', keyword: 'greek', types: ['greek_restaurant'], aliases: ['greek', 'gyro', 'souvlaki'] },
+  spanish: { label: 'Spanish', keyword: 'spanish', types: ['spanish_restaurant'], aliases: ['spanish', 'tapas', 'paella'] },
+};
+
+export interface CuisineMatch {
+  cuisines: string[];         // requested cuisines this place matches
+  explanation: string;
+}
+
+interface CuisineCandidate {
+  name: string;
+  types?: string[];
+  ai_cuisines?: string[];
+}
+
+const humanizeType = (type: string) => type.replace(/_/g, ' ');
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// Whole words, optionally plural, so "burger" matches "Burgers & Co" but
+// "pho" doesn't match "Phoenix Grill" nor "diner" "Dinner Bell"
+const containsWord = (text: string, alias: string) => {
+  const haystack = ` ${normalize(text)} `;
+  const needle = normalize(alias);
+  return haystack.includes(` ${needle} `) || haystack.includes(` ${needle}s `);
+};
+
+// Accepts the comma-joined string sent by the search page. Unknown cuisines
+// are kept so they can still be used as a free-text keyword.
+export const parseCuisines = (cuisine: string | string[] = ''): string[] => {
+  const values = Array.isArray(cuisine) ? cuisine : cuisine.split(',');
+  return [...new Set(values.map(c => c.trim().toLowerCase()).filter(Boolean))];
+};
+
+// Display label for a known cuisine ("south indian" isn't one; "indian" is)
+export const cuisineLabel = (cuisine: string): string | undefined => CUISINES[cuisine.trim().toLowerCase()]?.label;
+
+export const CUISINE_LABELS = Object.values(CUISINES).map(definition => definition.label);
+
+// Nearby Search accepts a single keyword, so it is only used to narrow the
+// search when exactly one cuisine is requested. Multiple cuisines are
+// handled by ranking instead.
+export const cuisineKeyword = (cuisines: string[]): string | undefined => {
+  if (cuisines.length !== 1) {
+    return undefined;
+  }
+  return CUISINES[cuisines[0]]?.keyword ?? cuisines[0];
+};
+
+export const matchCuisines = (requested: string[], place: CuisineCandidate): CuisineMatch | null => {
+  const reasons: string[] = [];
+  const matched: string[] = [];
+
+  for (const key of requested) {
+    const definition = CUISINES[key] ?? { label: key, keyword: key, types: [], aliases: [key] };
+    const type = place.types?.find(t => definition.types.includes(t));
+    const alias = definition.aliases.find(a => containsWord(place.name, a));
+    const aiCuisine = place.ai_cuisines?.find(c => definition.aliases.some(a => containsWord(c, a)));
+
+    let reason: string | undefined;
+    if (type) {
+      reason = `listed as ${humanizeType(type)}`;
+    } else if (aiCuisine) {
+      reason = `reviews describe it as ${aiCuisine}`;
+    } else if (alias) {
+      reason = `"${alias}" in the name`;
+    }
+
+    if (reason) {
+      matched.push(definition.label);
+      reasons.push(`${definition.label}: ${reason}`);
+    }
+  }
+
+  if (matched.length === 0) {
+    return null;
+  }
+
+  return { cuisines: matched, explanation: reasons.join('; ') };
+};
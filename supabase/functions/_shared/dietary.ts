@@ -0,0 +1,125 @@
+import type { MenuItem } from './places/index.ts';
+
+export type DietaryConfidence = 'low' | 'medium' | 'high';
+
+// Field names mirror the restaurants table columns they are persisted to
+export interface DietaryClassification {
+  veg_only: boolean;
+  veg_confidence: DietaryConfidence;
+  jain_food: boolean;
+  jain_confidence: DietaryConfidence;
+  dietary_signals: string[];
+}
+
+export interface DietaryRequirements {
+  veg_only: boolean;
+  jain_food: boolean;
+}
+
+export type DietaryFit = 'match' | 'unknown' | 'mismatch';
+
+interface DietaryCandidate {
+  name: string;
+  types?: string[];
+  reviews?: Array<{ text: string }>;
+  menu?: MenuItem[] | null;
+}
+
+const VEG_TYPES = ['vegetarian_restaurant', 'vegan_restaurant'];
+const NON_VEG_TYPES = ['steak_house', 'seafood_restaurant', 'barbecue_restaurant', 'hamburger_restaurant'];
+
+const STRONG_VEG_TERMS = ['pure veg', 'pure vegetarian', 'vegan', 'plant based', 'plant-based', 'veg only', 'bhojanalay', 'udupi'];
+const WEAK_VEG_TERMS = ['vegetarian', 'veg'];
+const NON_VEG_TERMS = [
+  'chicken', 'mutton', 'lamb', 'beef', 'pork', 'bacon', 'ham', 'fish', 'prawn', 'prawns', 'shrimp',
+  'crab', 'lobster', 'seafood', 'salmon', 'tuna', 'meat', 'keema', 'egg', 'eggs', 'omelette',
+];
+const JAIN_TERMS = ['jain', 'no onion', 'without onion', 'no garlic', 'without garlic', 'satvik', 'sattvic'];
+
+const findTerms = (text: string, terms: string[]): string[] =>
+  terms.filter(term => new RegExp(`\\b${term}\\b`, 'i').test(text));
+
+// Rule-based classifier. Menu data is the strongest evidence, then Places
+// types, then the name, then review mentions. Absence of evidence yields
+// "not veg / not Jain" with low confidence, which callers treat as unknown.
+export const classifyDietary = (place: DietaryCandidate): DietaryClassification => {
+  const signals: string[] = [];
+  const menu = place.menu ?? [];
+  const reviewText = (place.reviews ?? []).map(r => r.text).join('\n');
+
+  const menuNonVeg = menu.filter(item => item.veg === false);
+  const menuAllVeg = menu.length > 0 && menu.every(item => item.veg === true);
+  const menuJain = menu.filter(item => item.jain === true);
+
+  const vegType = place.types?.find(t => VEG_TYPES.includes(t));
+  const nonVegType = place.types?.find(t => NON_VEG_TYPES.includes(t));
+  const nameVeg = findTerms(place.name, STRONG_VEG_TERMS);
+  const reviewNonVeg = findTerms(reviewText, NON_VEG_TERMS);
+  const reviewStrongVeg = findTerms(reviewText, STRONG_VEG_TERMS);
+  const reviewWeakVeg = findTerms(reviewText, WEAK_VEG_TERMS);
+  const jainTerms = findTerms(`${place.name}\n${reviewText}`, JAIN_TERMS);
+
+  let veg_only = false;
+  let veg_confidence: DietaryConfidence = 'low';
+
+  if (menuNonVeg.length > 0) {
+    veg_confidence = 'high';
+    signals.push(`Menu lists non-veg items (${menuNonVeg.slice(0, 2).map(i => i.name).join(', ')})`);
+  } else if (nonVegType) {
+    veg_confidence = 'high';
+    signals.push(`Listed as ${nonVegType.replace(/_/g, ' ')}`);
+  } else if (reviewNonVeg.length > 0 && !vegType) {
+    veg_confidence = reviewNonVeg.length >= 2 ? 'high' : 'medium';
+    signals.push(`Reviews mention ${reviewNonVeg.slice(0, 3).join(', ')}`);
+  } else if (menuAllVeg || vegType) {
+    veg_only = true;
+    veg_confidence = 'high';
+    signals.push(menuAllVeg ? 'Every menu item is vegetarian' : `Listed as ${vegType!.replace(/_/g, ' ')}`);
+  } else if (nameVeg.length > 0 || reviewStrongVeg.length > 0) {
+    veg_only = true;
+    veg_confidence = 'medium';
+    signals.push(nameVeg.length > 0 ? `Name suggests ${nameVeg[0]}` : `Reviews describe it as ${reviewStrongVeg[0]}`);
+  } else if (reviewWeakVeg.length > 0) {
+    veg_only = true;
+    signals.push('Reviews mention vegetarian food');
+  }
+
+  let jain_food = false;
+  let jain_confidence: DietaryConfidence = 'low';
+
+  if (!veg_only && veg_confidence !== 'low') {
+    // A place that serves meat cannot be Jain-friendly
+    jain_confidence = veg_confidence;
+  } else if (menuJain.length > 0) {
+    jain_food = true;
+    jain_confidence = 'high';
+    signals.push(`Menu marks ${menuJain.length} Jain item${menuJain.length !== 1 ? 's' : ''}`);
+  } else if (jainTerms.length > 0) {
+    jain_food = true;
+    jain_confidence = veg_confidence === 'low' ? 'low' : 'medium';
+    signals.push(`Mentions ${jainTerms.slice(0, 2).join(', ')}`);
+  }
+
+  return { veg_only, veg_confidence, jain_food, jain_confidence, dietary_signals: signals };
+};
+
+// Low-confidence answers either way are "unknown": search keeps those places
+// but ranks them below confident matches.
+const fitFor = (required: boolean, satisfied: boolean, confidence: DietaryConfidence): DietaryFit => {
+  if (!required) return 'match';
+  if (confidence === 'low') return 'unknown';
+  return satisfied ? 'match' : 'mismatch';
+};
+
+export const dietaryFit = (classification: DietaryClassification, requirements: DietaryRequirements): DietaryFit => {
+  const fits = [
+    fitFor(requirements.veg_only || requirements.jain_food, classification.veg_only, classification.veg_confidence),
+    fitFor(requirements.jain_food, classification.jain_food, classification.jain_confidence),
+  ];
+
+  return worstFit(...fits);
+};
+
+// The least favourable of several fits, e.g. veg/Jain and a group's needs
+export const worstFit = (...fits: DietaryFit[]): DietaryFit =>
+  fits.includes('mismatch') ? 'mismatch' : fits.includes('unknown') ? 'unknown' : 'match';
@@ -0,0 +1,77 @@
+import type { MenuItem } from './places/index.ts';
+
+export interface DishMatch {
+  dish: string;               // what the user asked for
+  matched: string;            // menu item or phrase it matched
+  source: 'menu' | 'reviews' | 'known';
+  evidence?: string;          // review excerpt for review matches
+}
+
+interface DishCandidate {
+  menu?: MenuItem[] | null;
+  reviews?: Array<{ text: string }>;
+  known_items?: string[];     // restaurant_ai_summaries.matching_menu_items
+}
+
+const EXCERPT_RADIUS = 60;
+
+// Letters of any script are kept so "पनीर" or "ラーメン" still match
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+// "paneer tikka" matches "Paneer Tikka Masala" and "tikka, paneer" alike
+const containsAllWords = (haystack: string, dish: string) => {
+  const words = normalize(haystack).split(' ');
+  return normalize(dish).split(' ').every(word => words.includes(word));
+};
+
+const excerpt = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Whole words in order, so "tea" doesn't match "steak"
+const containsPhrase = (haystack: string, dish: string) =>
+  ` ${normalize(haystack)} `.includes(` ${normalize(dish)} `);
+
+// Dishes with nothing left to match on (e.g. only punctuation) are dropped,
+// since an empty needle would match every place
+export const parseDishes = (menu: string[] = []): string[] =>
+  [...new Set(menu.map(dish => dish.trim()).filter(dish => normalize(dish)))];
+
+// Stored menus are the strongest evidence, then a literal mention in a
+// review, then dishes already matched for this place by the AI analysis or
+// an earlier search.
+export const matchDishes = (dishes: string[], place: DishCandidate): DishMatch[] => {
+  const matches: DishMatch[] = [];
+
+  for (const dish of dishes) {
+    if (!normalize(dish)) continue;
+
+    const menuItem = place.menu?.find(item => containsAllWords(item.name, dish));
+    if (menuItem) {
+      matches.push({ dish, matched: menuItem.name, source: 'menu' });
+      continue;
+    }
+
+    const review = place.reviews?.find(r => containsPhrase(r.text, dish));
+    if (review) {
+      const index = review.text.toLowerCase().indexOf(dish.toLowerCase());
+      matches.push({
+        dish,
+        matched: dish,
+        source: 'reviews',
+        evidence: index >= 0 ? excerpt(review.text, index, dish.length) : review.text.slice(0, EXCERPT_RADIUS * 2),
+      });
+      continue;
+    }
+
+    const knownItem = place.known_items?.find(item => containsAllWords(item, dish));
+    if (knownItem) {
+      matches.push({ dish, matched: knownItem, source: 'known' });
+    }
+  }
+
+  return matches;
+};
@@ -0,0 +1,40 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points using the haversine formula
+export const haversineDistance = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Straight-line distance understates the route; 1.3 is the usual detour
+// factor for city street grids. Speeds are rough urban averages.
+const ROUTE_DETOUR_FACTOR = 1.3;
+const WALKING_METERS_PER_MINUTE = 5000 / 60;
+const DRIVING_METERS_PER_MINUTE = 25000 / 60;
+
+export interface TravelEstimate {
+  walking_minutes: number;
+  driving_minutes: number;
+}
+
+export const estimateTravelTime = (distanceMeters: number): TravelEstimate => {
+  const routeMeters = distanceMeters * ROUTE_DETOUR_FACTOR;
+
+  return {
+    walking_minutes: Math.max(1, Math.round(routeMeters / WALKING_METERS_PER_MINUTE)),
+    driving_minutes: Math.max(1, Math.round(routeMeters / DRIVING_METERS_PER_MINUTE)),
+  };
+};
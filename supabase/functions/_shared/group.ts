@@ -0,0 +1,188 @@
+import { findNeedEvidence, matchTaste, normalizeTasteProfile, type TasteProfile } from './profile.ts';
+import { worstFit, type DietaryFit } from './dietary.ts';
+import type { MenuItem } from './places/index.ts';
+
+export const MAX_GROUP_MEMBERS = 12;
+
+// One diner in a group search: their saved-profile fields plus the hard
+// filters and budget a single user would set on the search page
+export interface GroupMember extends TasteProfile {
+  name: string;
+  veg_only: boolean;
+  jain_food: boolean;
+  max_price: number;          // 1-4
+}
+
+export interface MemberFit {
+  name: string;
+  value: number;              // 0-1, how happy this member would be
+  signals: string[];
+}
+
+export interface GroupMatch {
+  value: number;              // 0-1, fed into the "group" score component
+  members: MemberFit[];
+}
+
+// Halal, gluten-free and allergen needs checked against one place for the
+// whole group
+export interface GroupNeedsFit {
+  fit: DietaryFit;
+  signals: string[];
+}
+
+interface GroupCandidate {
+  name: string;
+  price_level?: number;
+  types?: string[];
+  ai_cuisines?: string[];
+  reviews?: Array<{ text: string }>;
+  menu?: MenuItem[] | null;
+}
+
+// Validates the members sent with a group search. Names only label the
+// signals, so duplicates are allowed.
+export const normalizeGroup = (group: unknown): GroupMember[] => {
+  if (!Array.isArray(group)) {
+    throw new Error('group must be an array');
+  }
+  if (group.length > MAX_GROUP_MEMBERS) {
+    throw new Error(`group can have at most ${MAX_GROUP_MEMBERS} members`);
+  }
+
+  return group.map((member, index) => {
+    if (typeof member !== 'object' || member === null || Array.isArray(member)) {
+      throw new Error(`group[${index}] must be an object`);
+    }
+    const { name, veg_only = false, jain_food = false, max_price = 4, ...profile } = member as Record<string, unknown>;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      throw new Error(`group[${index}].name is required`);
+    }
+    if (typeof veg_only !== 'boolean' || typeof jain_food !== 'boolean') {
+      throw new Error(`group[${index}].veg_only and jain_food must be booleans`);
+    }
+    if (typeof max_price !== 'number' || !Number.isInteger(max_price) || max_price < 1 || max_price > 4) {
+      throw new Error(`group[${index}].max_price must be an integer from 1 to 4`);
+    }
+
+    return { name: name.trim(), veg_only, jain_food, max_price, ...normalizeTasteProfile(profile) };
+  });
+};
+
+// Dietary needs are hard constraints: if anyone is vegetarian or Jain the
+// whole group eats somewhere that suits them. Budget is a preference, so
+// the search uses the average and each member's own budget feeds the fit.
+export const groupSearchFilters = (members: GroupMember[]) => ({
+  veg_only: members.some(member => member.veg_only || member.vegan),
+  jain_food: members.some(member => member.jain_food),
+  max_price: Math.round(members.reduce((sum, member) => sum + member.max_price, 0) / members.length),
+});
+
+export const hasGroupNeeds = (members: GroupMember[]) =>
+  members.some(member => member.halal || member.gluten_free || member.allergens.length > 0);
+
+const PORK_TERMS = ['pork', 'bacon', 'ham', 'pepperoni', 'salami', 'prosciutto', 'lard'];
+
+const findTerm = (text: string, terms: string[]) =>
+  terms.find(term => new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}s?\\b`, 'i').test(text));
+
+// Like veg/Jain, any member's halal, gluten-free or allergen need applies to
+// the whole group, judged with the same match/unknown/mismatch fit: a
+// mismatch is dropped by the dietary filter and an unknown ranks lower.
+// - halal: pork on the menu or in reviews is a mismatch, halal evidence a
+//   match, neither unknown
+// - gluten-free: evidence of gluten-free options is a match, else unknown
+// - allergens: an allergen named on the menu or in reviews is a mismatch,
+//   else unknown: no mention isn't proof, and only whole words are matched
+//   ("nut" doesn't find "peanut")
+// Null when no member has any of these needs.
+export const matchGroupNeeds = (members: GroupMember[], place: GroupCandidate): GroupNeedsFit | null => {
+  if (!hasGroupNeeds(members)) {
+    return null;
+  }
+
+  const needs = groupProfile(members);
+
+  const fits: DietaryFit[] = [];
+  const signals: string[] = [];
+  const menuText = (place.menu ?? []).map(item => item.name).join('\n');
+  const reviewText = (place.reviews ?? []).map(review => review.text).join('\n');
+  const mentionIn = (terms: string[]) => {
+    const menuTerm = findTerm(menuText, terms);
+    if (menuTerm) return `the menu lists ${menuTerm}`;
+    const reviewTerm = findTerm(reviewText, terms);
+    return reviewTerm ? `reviews mention ${reviewTerm}` : undefined;
+  };
+
+  if (needs.halal) {
+    const pork = mentionIn(PORK_TERMS);
+    const evidence = findNeedEvidence('halal', place);
+    fits.push(pork ? 'mismatch' : evidence ? 'match' : 'unknown');
+    signals.push(pork ? `Not halal: ${pork}` : evidence ? `Halal: ${evidence}` : 'No sign it serves halal food');
+  }
+
+  if (needs.gluten_free) {
+    const evidence = findNeedEvidence('gluten_free', place);
+    fits.push(evidence ? 'match' : 'unknown');
+    signals.push(evidence ? `Gluten-free: ${evidence}` : 'No sign of gluten-free options');
+  }
+
+  for (const allergen of needs.allergens) {
+    const mention = mentionIn([allergen]);
+    fits.push(mention ? 'mismatch' : 'unknown');
+    signals.push(mention ? `Contains ${allergen}: ${mention}` : `No mention of ${allergen}; ask the staff`);
+  }
+
+  return { fit: worstFit(...fits), signals };
+};
+
+// Everyone's vegan/halal/gluten-free needs and allergens, for the AI
+// analysis prompt; cuisine likes are scored per member instead
+export const groupProfile = (members: GroupMember[]): TasteProfile => ({
+  vegan: members.some(member => member.vegan),
+  halal: members.some(member => member.halal),
+  gluten_free: members.some(member => member.gluten_free),
+  allergens: [...new Set(members.flatMap(member => member.allergens))],
+  favorite_cuisines: [],
+  disliked_cuisines: [],
+});
+
+const matchMember = (member: GroupMember, place: GroupCandidate): MemberFit | null => {
+  const parts: number[] = [];
+  const signals: string[] = [];
+
+  if (place.price_level) {
+    const over = place.price_level - member.max_price;
+    parts.push(over > 0 ? Math.max(0, 1 - over / 2) : 1);
+    if (over > 0) signals.push('Over budget');
+  }
+
+  const taste = matchTaste(member, place);
+  if (taste) {
+    parts.push(taste.value);
+    signals.push(...taste.signals);
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return { name: member.name, value: parts.reduce((sum, part) => sum + part, 0) / parts.length, signals };
+};
+
+// Fairness-aware group fit: the average member fit blended equally with
+// the least happy member's, so a place everyone finds fine beats one that
+// delights most of the group but leaves someone out. Null when no member
+// has anything the ranking can use.
+export const matchGroup = (members: GroupMember[], place: GroupCandidate): GroupMatch | null => {
+  const fits = members.map(member => matchMember(member, place)).filter((fit): fit is MemberFit => fit !== null);
+  if (fits.length === 0) {
+    return null;
+  }
+
+  const values = fits.map(fit => fit.value);
+  const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  return { value: (average + Math.min(...values)) / 2, members: fits };
+};
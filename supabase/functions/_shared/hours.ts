@@ -0,0 +1,67 @@
+import type { PlaceOpeningHours } from './places/index.ts';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// A span of opening time in minutes since Sunday 00:00, restaurant local
+// time. close may exceed one week for periods that wrap past Saturday night.
+export interface WeeklyPeriod {
+  open: number;
+  close: number;
+}
+
+export interface OpeningHours {
+  periods: WeeklyPeriod[];
+  utc_offset_minutes: number;
+  weekday_text?: string[];
+}
+
+const toMinuteOfWeek = ({ day, time }: { day: number; time: string }) =>
+  day * MINUTES_PER_DAY + parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2, 4), 10);
+
+export const normalizeOpeningHours = (raw: PlaceOpeningHours | undefined, utcOffsetMinutes = 0): OpeningHours | null => {
+  if (!raw?.periods?.length) {
+    return null;
+  }
+
+  const periods = raw.periods.map(({ open, close }): WeeklyPeriod => {
+    // Google reports always-open places as a single period with no close
+    if (!close) {
+      return { open: 0, close: MINUTES_PER_WEEK };
+    }
+
+    const openMinute = toMinuteOfWeek(open);
+    let closeMinute = toMinuteOfWeek(close);
+    if (closeMinute <= openMinute) {
+      // Either a Saturday night period closing on Sunday, or a source that
+      // reports an after-midnight close on the opening day
+      closeMinute += close.day === open.day ? MINUTES_PER_DAY : MINUTES_PER_WEEK;
+    }
+    return { open: openMinute, close: closeMinute };
+  });
+
+  return {
+    periods: periods.sort((a, b) => a.open - b.open),
+    utc_offset_minutes: utcOffsetMinutes,
+    weekday_text: raw.weekday_text,
+  };
+};
+
+// Minute of the week at the restaurant for an absolute instant
+export const localMinuteOfWeek = (date: Date, utcOffsetMinutes: number): number => {
+  const local = new Date(date.getTime() + utcOffsetMinutes * 60 * 1000);
+  return local.getUTCDay() * MINUTES_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+};
+
+// "HH:MM" on the restaurant's current day
+export const minuteOfWeekAtTime = (time: string, now: Date, utcOffsetMinutes: number): number => {
+  const [hours, minutes] = time.split(':').map(n => parseInt(n, 10));
+  const today = Math.floor(localMinuteOfWeek(now, utcOffsetMinutes) / MINUTES_PER_DAY);
+  return today * MINUTES_PER_DAY + hours * 60 + (minutes || 0);
+};
+
+export const isOpenAt = (hours: OpeningHours, minuteOfWeek: number): boolean =>
+  hours.periods.some(({ open, close }) =>
+    (minuteOfWeek >= open && minuteOfWeek < close) ||
+    (minuteOfWeek + MINUTES_PER_WEEK >= open && minuteOfWeek + MINUTES_PER_WEEK < close)
+  );
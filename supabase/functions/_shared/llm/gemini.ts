@@ -0,0 +1,117 @@
+import type { ChatMessage, ChatRequest, ChatResponse, LLMClient, LLMRequest, ToolCall } from './types.ts';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+// Gemini has no system or tool roles: the system prompt goes in
+// systemInstruction and tool results are user turns with functionResponse parts
+const toGeminiContent = (message: Exclude<ChatMessage, { role: 'system' }>) => {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', parts: [{ text: message.content }] };
+    case 'assistant':
+      return {
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.tool_calls ?? []).map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+        ],
+      };
+    case 'tool':
+      return {
+        role: 'user',
+        parts: [{ functionResponse: { name: message.name, response: { content: message.content } } }],
+      };
+  }
+};
+
+export class GeminiClient implements LLMClient {
+  readonly name = 'gemini';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model = 'gemini-1.5-flash-latest',
+  ) {}
+
+  async generate({ prompt, temperature = 0.2, maxOutputTokens = 1000, json = false }: LLMRequest): Promise<string> {
+    const geminiResponse = await fetch(`${GEMINI_API_URL}/${this.model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature,
+          topK: 1,
+          topP: 0.8,
+          maxOutputTokens,
+          ...(json && { responseMimeType: 'application/json' }),
+        }
+      })
+    });
+
+    const geminiData = await geminiResponse.json();
+
+    // Log full Gemini response
+    console.log('Gemini full response:', JSON.stringify(geminiData, null, 2));
+
+    if (!geminiResponse.ok) {
+      throw new Error(`Gemini API error: ${geminiData.error?.message ?? geminiResponse.status}`);
+    }
+
+    const text = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string') {
+      throw new Error('Gemini returned no candidates');
+    }
+
+    return text;
+  }
+
+  async chat({ messages, tools = [], temperature = 0.2, maxOutputTokens = 1000 }: ChatRequest): Promise<ChatResponse> {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const turns = messages.filter((message): message is Exclude<ChatMessage, { role: 'system' }> => message.role !== 'system');
+
+    const response = await fetch(`${GEMINI_API_URL}/${this.model}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        contents: turns.map(toGeminiContent),
+        ...(tools.length > 0 && { tools: [{ functionDeclarations: tools }] }),
+        generationConfig: { temperature, maxOutputTokens },
+      })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${data.error?.message ?? response.status}`);
+    }
+
+    const parts: GeminiPart[] | undefined = data.candidates?.[0]?.content?.parts;
+    if (!parts) {
+      throw new Error('Gemini returned no candidates');
+    }
+
+    const toolCalls: ToolCall[] = parts
+      .filter(part => part.functionCall)
+      .map((part, index) => ({ id: `call_${index}`, name: part.functionCall!.name, arguments: part.functionCall!.args ?? {} }));
+
+    return {
+      content: parts.map(part => part.text ?? '').join('').trim(),
+      tool_calls: toolCalls,
+    };
+  }
+}
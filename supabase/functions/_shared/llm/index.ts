@@ -0,0 +1,35 @@
+import { GeminiClient } from './gemini.ts';
+import { OpenAICompatibleClient } from './openai.ts';
+import { StubLLMClient } from './stub.ts';
+import type { LLMClient } from './types.ts';
+
+export type { ChatMessage, ChatRequest, ChatResponse, LLMClient, LLMRequest, ToolCall, ToolDefinition } from './types.ts';
+
+const DEFAULT_STUB_RESPONSES_URL = new URL('./fixtures/stub-responses.json', import.meta.url);
+
+// LLM_PROVIDER selects the backend: "gemini" (default), "openai" or "stub"
+export const createLLMClient = async (): Promise<LLMClient> => {
+  const provider = Deno.env.get('LLM_PROVIDER') ?? 'gemini';
+
+  switch (provider) {
+    case 'gemini': {
+      const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+      if (!geminiApiKey) {
+        throw new Error('Missing required API keys');
+      }
+      return new GeminiClient(geminiApiKey, Deno.env.get('GEMINI_MODEL'));
+    }
+    case 'openai': {
+      const baseUrl = Deno.env.get('OPENAI_BASE_URL');
+      const model = Deno.env.get('OPENAI_MODEL');
+      if (!baseUrl || !model) {
+        throw new Error('OPENAI_BASE_URL and OPENAI_MODEL are required for the openai LLM provider');
+      }
+      return new OpenAICompatibleClient(baseUrl, model, Deno.env.get('OPENAI_API_KEY'));
+    }
+    case 'stub':
+      return StubLLMClient.fromFile(Deno.env.get('LLM_STUB_RESPONSES_PATH') ?? DEFAULT_STUB_RESPONSES_URL);
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+};
@@ -0,0 +1,120 @@
+import type { ChatMessage, ChatRequest, ChatResponse, LLMClient, LLMRequest, ToolCall } from './types.ts';
+
+interface OpenAIToolCall {
+  id: string;
+  function: { name: string; arguments: string };
+}
+
+const toOpenAIMessage = (message: ChatMessage) => {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.tool_calls?.length && {
+          tool_calls: message.tool_calls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        }),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.tool_call_id, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+};
+
+// Arguments arrive as a JSON string; small local models sometimes garble it
+const parseArguments = (text: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Speaks the OpenAI chat completions protocol, which llama.cpp's server,
+// Ollama and most other local inference servers also expose.
+export class OpenAICompatibleClient implements LLMClient {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async generate({ prompt, temperature = 0.2, maxOutputTokens = 1000, json = false }: LLMRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        max_tokens: maxOutputTokens,
+        ...(json && { response_format: { type: 'json_object' } }),
+      })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(`LLM API error: ${data.error?.message ?? response.status}`);
+    }
+
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('LLM returned no choices');
+    }
+
+    return text;
+  }
+
+  async chat({ messages, tools = [], temperature = 0.2, maxOutputTokens = 1000 }: ChatRequest): Promise<ChatResponse> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: messages.map(toOpenAIMessage),
+        ...(tools.length > 0 && {
+          tools: tools.map(tool => ({ type: 'function', function: tool })),
+        }),
+        temperature,
+        max_tokens: maxOutputTokens,
+      })
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(`LLM API error: ${data.error?.message ?? response.status}`);
+    }
+
+    const message = data.choices?.[0]?.message;
+    if (!message) {
+      throw new Error('LLM returned no choices');
+    }
+
+    const toolCalls: ToolCall[] = (message.tool_calls ?? []).map((call: OpenAIToolCall) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseArguments(call.function.arguments),
+    }));
+
+    return {
+      content: (message.content ?? '').trim(),
+      tool_calls: toolCalls,
+    };
+  }
+}
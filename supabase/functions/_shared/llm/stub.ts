@@ -0,0 +1,52 @@
+import type { ChatRequest, ChatResponse, LLMClient, LLMRequest, ToolCall } from './types.ts';
+
+const CHAT_KEY_PREFIX = 'chat:';
+
+export interface StubResponses {
+  default: unknown;
+  [key: string]: unknown;
+}
+
+// Deterministic, offline LLM. Answers with the first canned response whose
+// key occurs in the prompt (e.g. a place_id), falling back to "default".
+export class StubLLMClient implements LLMClient {
+  readonly name = 'stub';
+
+  constructor(private readonly responses: StubResponses) {}
+
+  static async fromFile(path: string | URL): Promise<StubLLMClient> {
+    const responses: StubResponses = JSON.parse(await Deno.readTextFile(path));
+    return new StubLLMClient(responses);
+  }
+
+  async generate({ prompt }: LLMRequest): Promise<string> {
+    const key = Object.keys(this.responses).find(k => k !== 'default' && !k.startsWith(CHAT_KEY_PREFIX) && prompt.includes(k));
+    const response = this.responses[key ?? 'default'];
+
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  // Chat turns use "chat:<keyword>" responses matched against the latest
+  // user message, either a string reply or { tool_calls: [{ name, arguments }] }.
+  // After a tool has run it answers with "chat:tool_result".
+  async chat({ messages, tools = [] }: ChatRequest): Promise<ChatResponse> {
+    const last = messages[messages.length - 1];
+
+    if (last?.role === 'tool') {
+      return { content: String(this.responses[`${CHAT_KEY_PREFIX}tool_result`] ?? ''), tool_calls: [] };
+    }
+
+    const text = last?.content.toLowerCase() ?? '';
+    const key = Object.keys(this.responses).find(k =>
+      k.startsWith(CHAT_KEY_PREFIX) && k !== `${CHAT_KEY_PREFIX}default` && text.includes(k.slice(CHAT_KEY_PREFIX.length))
+    );
+    const response = this.responses[key ?? `${CHAT_KEY_PREFIX}default`];
+
+    if (typeof response === 'object' && response !== null && 'tool_calls' in response && tools.length > 0) {
+      const calls = (response as { tool_calls: Array<Omit<ToolCall, 'id'>> }).tool_calls;
+      return { content: '', tool_calls: calls.map((call, index) => ({ id: `stub_call_${index}`, ...call })) };
+    }
+
+    return { content: typeof response === 'string' ? response : '', tool_calls: [] };
+  }
+}
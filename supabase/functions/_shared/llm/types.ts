@@ -0,0 +1,44 @@
+export interface LLMRequest {
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean;             // ask the model for a JSON-only answer where supported
+}
+
+// A function the model may call; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;                 // providers without call ids get a generated one
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: ToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string; name: string };
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+// Either text, tool calls, or both; content is '' when the model only
+// called tools
+export interface ChatResponse {
+  content: string;
+  tool_calls: ToolCall[];
+}
+
+export interface LLMClient {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<string>;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
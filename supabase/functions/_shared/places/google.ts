@@ -0,0 +1,95 @@
+import type { Coordinates } from '../geo.ts';
+import type { NearbySearchParams, NearbySearchResult, PlaceDetails, PlacesProvider } from './types.ts';
+
+const GOOGLE_MAPS_API_URL = 'https://maps.googleapis.com/maps/api';
+
+// A next_page_token only becomes valid a couple of seconds after it is issued
+const PAGE_TOKEN_RETRY_DELAY_MS = 2000;
+
+const DETAILS_FIELDS = [
+  'name', 'rating', 'user_ratings_total', 'price_level', 'formatted_address', 'geometry', 'photos',
+  'opening_hours', 'utc_offset_minutes', 'formatted_phone_number', 'website', 'types', 'reviews',
+];
+
+export class GooglePlacesProvider implements PlacesProvider {
+  readonly name = 'google';
+
+  constructor(private readonly apiKey: string) {}
+
+  async geocode(address: string): Promise<Coordinates> {
+    console.log(`Geocoding address: "${address}"`);
+    const geocodeUrl = `${GOOGLE_MAPS_API_URL}/geocode/json?address=${encodeURIComponent(address)}&key=${this.apiKey}`;
+    const geocodeResponse = await fetch(geocodeUrl);
+    const geocodeData = await geocodeResponse.json();
+
+    console.log(`Geocoding result: ${geocodeData.status}`, geocodeData.results?.[0]?.formatted_address);
+
+    if (geocodeData.status !== 'OK' || !geocodeData.results[0]) {
+      const errorMsg = geocodeData.status === 'ZERO_RESULTS'
+        ? `Unable to find location "${address}". Please try a more specific address or city name.`
+        : `Geocoding failed: ${geocodeData.status}`;
+      throw new Error(errorMsg);
+    }
+
+    return geocodeData.results[0].geometry.location;
+  }
+
+  async nearby({ location, radius, max_price = 4, keyword, page_token }: NearbySearchParams): Promise<NearbySearchResult> {
+    let placesUrl: string;
+
+    if (page_token) {
+      // The token encodes the original query; other parameters are ignored
+      placesUrl = `${GOOGLE_MAPS_API_URL}/place/nearbysearch/json?pagetoken=${encodeURIComponent(page_token)}&key=${this.apiKey}`;
+    } else {
+      placesUrl = `${GOOGLE_MAPS_API_URL}/place/nearbysearch/json?location=${location.lat},${location.lng}&radius=${radius}&type=restaurant&key=${this.apiKey}`;
+
+      if (max_price < 4) {
+        placesUrl += `&maxprice=${max_price}`;
+      }
+
+      if (keyword) {
+        placesUrl += `&keyword=${encodeURIComponent(keyword)}`;
+      }
+    }
+
+    let placesData = await (await fetch(placesUrl)).json();
+
+    if (page_token && placesData.status === 'INVALID_REQUEST') {
+      await new Promise(resolve => setTimeout(resolve, PAGE_TOKEN_RETRY_DELAY_MS));
+      placesData = await (await fetch(placesUrl)).json();
+    }
+
+    // An area or filter with nothing in it is an empty page, not a failure
+    if (placesData.status === 'ZERO_RESULTS') {
+      return { results: [] };
+    }
+
+    if (placesData.status !== 'OK') {
+      throw new Error(`Places API error: ${placesData.status}`);
+    }
+
+    return {
+      results: placesData.results,
+      next_page_token: placesData.next_page_token,
+    };
+  }
+
+  async details(placeId: string): Promise<PlaceDetails | null> {
+    const detailsUrl = `${GOOGLE_MAPS_API_URL}/place/details/json?place_id=${encodeURIComponent(placeId)}&fields=${DETAILS_FIELDS.join(',')}&key=${this.apiKey}`;
+
+    const detailsResponse = await fetch(detailsUrl);
+    const detailsData = await detailsResponse.json();
+
+    if (detailsData.status !== 'OK') {
+      console.warn(`Failed to get details for ${placeId}: ${detailsData.status}`);
+      return null;
+    }
+
+    // The details endpoint does not echo place_id unless requested as a field
+    return { ...detailsData.result, place_id: placeId };
+  }
+
+  photo(photoReference: string, maxWidth = 800): string {
+    return `${GOOGLE_MAPS_API_URL}/place/photo?maxwidth=${maxWidth}&photo_reference=${photoReference}&key=${this.apiKey}`;
+  }
+}
@@ -0,0 +1,28 @@
+import { GooglePlacesProvider } from './google.ts';
+import { LocalPlacesProvider } from './local.ts';
+import type { PlacesProvider } from './types.ts';
+
+export type { MenuItem, NearbyPlace, NearbySearchParams, NearbySearchResult, PlaceDetails, PlaceOpeningHours, PlaceReview, PlacesProvider } from './types.ts';
+
+const DEFAULT_FIXTURE_URL = new URL('./fixtures/places.json', import.meta.url);
+
+// PLACES_PROVIDER selects the backend: "google" (default) or "local" (fixtures)
+export const createPlacesProvider = async (): Promise<PlacesProvider> => {
+  const provider = Deno.env.get('PLACES_PROVIDER') ?? 'google';
+
+  switch (provider) {
+    case 'google': {
+      const googleApiKey = Deno.env.get('GOOGLE_PLACES_API_KEY');
+      if (!googleApiKey) {
+        throw new Error('Missing required API keys');
+      }
+      return new GooglePlacesProvider(googleApiKey);
+    }
+    case 'local': {
+      const pageSize = Number(Deno.env.get('PLACES_FIXTURE_PAGE_SIZE')) || undefined;
+      return LocalPlacesProvider.fromFile(Deno.env.get('PLACES_FIXTURE_PATH') ?? DEFAULT_FIXTURE_URL, pageSize);
+    }
+    default:
+      throw new Error(`Unknown places provider: ${provider}`);
+  }
+};
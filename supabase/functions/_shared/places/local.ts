@@ -0,0 +1,78 @@
+import { haversineDistance, type Coordinates } from '../geo.ts';
+import type { NearbySearchParams, NearbySearchResult, PlaceDetails, PlacesProvider } from './types.ts';
+
+export interface PlacesFixture {
+  geocode: Record<string, Coordinates>;   // lower-cased address -> coordinates
+  places: PlaceDetails[];
+}
+
+// Approximates Google's keyword matching over name, types and review text
+const matchesKeyword = (place: PlaceDetails, keyword: string): boolean => {
+  const needle = keyword.toLowerCase();
+  const haystack = [place.name, ...place.types, ...(place.reviews ?? []).map(r => r.text)];
+  return haystack.some(text => text.toLowerCase().includes(needle));
+};
+
+// Serves geocoding, nearby search and details from a fixture file so the
+// search pipeline can run without network access.
+export class LocalPlacesProvider implements PlacesProvider {
+  readonly name = 'local';
+
+  // Google returns at most 20 results per page
+  constructor(private readonly fixture: PlacesFixture, private readonly pageSize = 20) {}
+
+  static async fromFile(path: string | URL, pageSize?: number): Promise<LocalPlacesProvider> {
+    const fixture: PlacesFixture = JSON.parse(await Deno.readTextFile(path));
+    return new LocalPlacesProvider(fixture, pageSize);
+  }
+
+  async geocode(address: string): Promise<Coordinates> {
+    const coordinates = this.fixture.geocode[address.trim().toLowerCase()];
+
+    if (!coordinates) {
+      throw new Error(`Unable to find location "${address}". Please try a more specific address or city name.`);
+    }
+
+    return coordinates;
+  }
+
+  async nearby({ location, radius, max_price = 4, keyword, page_token }: NearbySearchParams): Promise<NearbySearchResult> {
+    const matches = this.fixture.places
+      .filter(place => haversineDistance(location, place.geometry.location) <= radius)
+      .filter(place => max_price >= 4 || place.price_level === undefined || place.price_level <= max_price)
+      .filter(place => !keyword || matchesKeyword(place, keyword));
+
+    // Page tokens are plain offsets into the same filtered list
+    const offset = page_token ? parseInt(page_token, 10) || 0 : 0;
+    const page = matches.slice(offset, offset + this.pageSize);
+    const nextOffset = offset + this.pageSize;
+
+    return {
+      results: page.map(place => ({
+        place_id: place.place_id,
+        name: place.name,
+        rating: place.rating,
+        price_level: place.price_level,
+        geometry: place.geometry,
+        types: place.types,
+      })),
+      next_page_token: nextOffset < matches.length ? String(nextOffset) : undefined,
+    };
+  }
+
+  async details(placeId: string): Promise<PlaceDetails | null> {
+    const place = this.fixture.places.find(p => p.place_id === placeId);
+
+    if (!place) {
+      console.warn(`No fixture details for ${placeId}`);
+      return null;
+    }
+
+    return place;
+  }
+
+  // Fixture photo references are already usable image URLs
+  photo(photoReference: string): string {
+    return photoReference;
+  }
+}
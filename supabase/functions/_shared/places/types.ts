@@ -0,0 +1,74 @@
+import type { Coordinates } from '../geo.ts';
+
+export interface NearbySearchParams {
+  location: Coordinates;
+  radius: number;             // meters
+  max_price?: number;         // 0-4, Google price levels
+  keyword?: string;           // free text matched against names, types and reviews
+  page_token?: string;        // next_page_token from a previous call with the same params
+}
+
+export interface NearbySearchResult {
+  results: NearbyPlace[];
+  next_page_token?: string;
+}
+
+export interface PlaceReview {
+  text: string;
+  rating: number;
+  time: number;
+}
+
+export interface MenuItem {
+  name: string;
+  veg?: boolean;
+  jain?: boolean;
+}
+
+export interface PlaceOpeningHours {
+  periods?: Array<{
+    open: { day: number; time: string };    // day 0 = Sunday, time "HHMM"
+    close?: { day: number; time: string };
+  }>;
+  weekday_text?: string[];
+}
+
+// Summary returned by a nearby search, before details are fetched
+export interface NearbyPlace {
+  place_id: string;
+  name: string;
+  rating?: number;
+  price_level?: number;
+  geometry: {
+    location: Coordinates;
+  };
+  types: string[];
+}
+
+export interface PlaceDetails {
+  place_id: string;
+  name: string;
+  rating: number;
+  user_ratings_total?: number;
+  price_level: number;
+  formatted_address: string;
+  geometry: {
+    location: Coordinates;
+  };
+  photos?: Array<{ photo_reference: string }>;
+  opening_hours?: PlaceOpeningHours;
+  utc_offset_minutes?: number;
+  formatted_phone_number?: string;
+  website?: string;
+  types: string[];
+  reviews?: PlaceReview[];
+  menu?: MenuItem[];          // only available from providers with menu data
+}
+
+export interface PlacesProvider {
+  readonly name: string;
+  geocode(address: string): Promise<Coordinates>;
+  nearby(params: NearbySearchParams): Promise<NearbySearchResult>;
+  details(placeId: string): Promise<PlaceDetails | null>;
+  photo(photoReference: string, maxWidth?: number): string;
+}
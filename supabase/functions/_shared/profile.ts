@@ -0,0 +1,138 @@
+import { matchCuisines, parseCuisines } from './cuisine.ts';
+import type { MenuItem } from './places/index.ts';
+
+// Standing preferences from the user's saved profile. Veg/Jain, budget and
+// radius arrive as ordinary search filters (the search page starts from the
+// profile); these are the parts only the ranking and the AI prompt use.
+export interface TasteProfile {
+  vegan: boolean;
+  halal: boolean;
+  gluten_free: boolean;
+  allergens: string[];
+  favorite_cuisines: string[];
+  disliked_cuisines: string[];
+}
+
+export const EMPTY_TASTE_PROFILE: TasteProfile = {
+  vegan: false,
+  halal: false,
+  gluten_free: false,
+  allergens: [],
+  favorite_cuisines: [],
+  disliked_cuisines: [],
+};
+
+export interface TasteMatch {
+  value: number;              // 0-1, fed into the "taste" score component
+  signals: string[];          // human-readable reasons
+}
+
+export type DietaryNeed = 'vegan' | 'halal' | 'gluten_free';
+
+const NEED_LABELS: Record<DietaryNeed, string> = { vegan: 'vegan', halal: 'halal', gluten_free: 'gluten-free' };
+
+const NEED_TERMS: Record<DietaryNeed, string[]> = {
+  vegan: ['vegan', 'plant based', 'plant-based'],
+  halal: ['halal', 'zabiha'],
+  gluten_free: ['gluten free', 'gluten-free', 'celiac', 'coeliac'],
+};
+
+const NEED_TYPES: Record<DietaryNeed, string[]> = {
+  vegan: ['vegan_restaurant'],
+  halal: [],
+  gluten_free: [],
+};
+
+const MAX_LIST_LENGTH = 20;
+
+interface TasteCandidate {
+  name: string;
+  types?: string[];
+  ai_cuisines?: string[];
+  reviews?: Array<{ text: string }>;
+  menu?: MenuItem[] | null;
+}
+
+const parseList = (value: unknown, field: string): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`profile.${field} must be an array of strings`);
+  }
+  return [...new Set(value.map(item => item.trim()).filter(Boolean))].slice(0, MAX_LIST_LENGTH);
+};
+
+const parseFlag = (value: unknown, field: string): boolean => {
+  if (value === undefined || value === null) return false;
+  if (typeof value !== 'boolean') {
+    throw new Error(`profile.${field} must be a boolean`);
+  }
+  return value;
+};
+
+// Validates the profile sent with a search; missing fields are off/empty
+export const normalizeTasteProfile = (profile: unknown = {}): TasteProfile => {
+  if (typeof profile !== 'object' || profile === null || Array.isArray(profile)) {
+    throw new Error('profile must be an object');
+  }
+
+  const input = profile as Record<string, unknown>;
+  return {
+    vegan: parseFlag(input.vegan, 'vegan'),
+    halal: parseFlag(input.halal, 'halal'),
+    gluten_free: parseFlag(input.gluten_free, 'gluten_free'),
+    allergens: parseList(input.allergens, 'allergens'),
+    favorite_cuisines: parseCuisines(parseList(input.favorite_cuisines, 'favorite_cuisines')),
+    disliked_cuisines: parseCuisines(parseList(input.disliked_cuisines, 'disliked_cuisines')),
+  };
+};
+
+export const dietaryNeeds = (profile: TasteProfile): string[] =>
+  (Object.keys(NEED_LABELS) as DietaryNeed[]).filter(need => profile[need]).map(need => NEED_LABELS[need]);
+
+export const findNeedEvidence = (need: DietaryNeed, place: TasteCandidate): string | undefined => {
+  const type = place.types?.find(t => NEED_TYPES[need].includes(t));
+  if (type) return `listed as ${type.replace(/_/g, ' ')}`;
+
+  const sources: Array<[string, string]> = [
+    ['name', place.name],
+    ['menu', (place.menu ?? []).map(item => item.name).join('\n')],
+    ['reviews', (place.reviews ?? []).map(review => review.text).join('\n')],
+  ];
+  for (const [source, text] of sources) {
+    const term = NEED_TERMS[need].find(t => new RegExp(`\\b${t}\\b`, 'i').test(text));
+    if (term) return `"${term}" in the ${source}`;
+  }
+  return undefined;
+};
+
+// How well a place suits the profile, or null when the profile has nothing
+// the ranking can use. Each part is averaged: a favorite cuisine scores 1,
+// a disliked one 0 and anything else 0.5; each dietary need scores 1 with
+// evidence that the place caters for it and 0 without.
+export const matchTaste = (profile: TasteProfile, place: TasteCandidate): TasteMatch | null => {
+  const parts: number[] = [];
+  const signals: string[] = [];
+
+  if (profile.favorite_cuisines.length > 0 || profile.disliked_cuisines.length > 0) {
+    const favorite = matchCuisines(profile.favorite_cuisines, place);
+    const disliked = matchCuisines(profile.disliked_cuisines, place);
+
+    if (favorite) signals.push(`Serves ${favorite.cuisines.join(', ')}, which you like`);
+    if (disliked) signals.push(`Serves ${disliked.cuisines.join(', ')}, which you avoid`);
+    parts.push(favorite && !disliked ? 1 : disliked && !favorite ? 0 : 0.5);
+  }
+
+  for (const need of Object.keys(NEED_LABELS) as DietaryNeed[]) {
+    if (!profile[need]) continue;
+
+    const evidence = findNeedEvidence(need, place);
+    signals.push(evidence ? `Caters for ${NEED_LABELS[need]}: ${evidence}` : `No sign it caters for ${NEED_LABELS[need]}`);
+    parts.push(evidence ? 1 : 0);
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return { value: parts.reduce((sum, part) => sum + part, 0) / parts.length, signals };
+};
@@ -0,0 +1,206 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+import type { LLMClient } from './llm/index.ts';
+import { repairJson } from './analysis.ts';
+import { CUISINE_LABELS, cuisineLabel } from './cuisine.ts';
+
+export const MAX_QUERY_LENGTH = 300;
+
+// Filters found in a free-text request. Anything the request doesn't
+// mention is left out, so the search page keeps its current value for it.
+export interface ParsedQuery {
+  location?: string;
+  max_price?: number;         // 1 (cheap) - 4
+  max_distance_km?: number;   // 1-25
+  cuisine?: string[];         // labels from the search page's cuisine list
+  veg_only?: boolean;
+  jain_food?: boolean;
+  menu?: string[];
+  open_now?: boolean;
+  open_at?: string;           // "HH:MM", 24-hour
+}
+
+export interface QueryParseResult {
+  filters: ParsedQuery;
+  source: 'llm' | 'rules';    // rules when no LLM is configured or its answer was unusable
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform(value => value ?? undefined);
+
+const stringList = z.array(z.coerce.string().trim()).transform(values => values.filter(Boolean));
+
+// Same coercing approach as the analysis schema: usable values are clamped
+// or dropped rather than failing the whole answer
+const ParsedQuerySchema = z.object({
+  location: optional(z.string().trim().transform(value => value || undefined)),
+  max_price: optional(z.coerce.number().transform(n => clamp(Math.round(n), 1, 4))),
+  max_distance_km: optional(z.coerce.number().transform(n => clamp(Math.round(n), 1, 25))),
+  cuisine: optional(stringList.transform(values => [...new Set(values.map(cuisineLabel).filter((c): c is string => !!c))])),
+  veg_only: optional(z.boolean()),
+  jain_food: optional(z.boolean()),
+  menu: optional(stringList),
+  open_now: optional(z.boolean()),
+  open_at: optional(z.string().transform(value => TIME_PATTERN.test(value.trim()) ? value.trim().padStart(5, '0') : undefined)),
+});
+
+// Drops empty lists and undefined fields so only mentioned filters remain
+const compact = (query: ParsedQuery): ParsedQuery => Object.fromEntries(
+  Object.entries(query).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+) as ParsedQuery;
+
+const buildQueryPrompt = (query: string) => `You turn a restaurant search request into search filters and MUST return JSON only.
+Use null for anything the request doesn't mention; never guess a location.
+"cheap" is max_price 1, "affordable" is 2. "after 10pm" is open_at "22:00". Dishes go in menu, cuisines in cuisine.
+cuisine values must come from: ${CUISINE_LABELS.join(', ')}.
+
+Request: ${JSON.stringify(query)}
+
+Output (strict JSON):
+{
+  "location": "<neighbourhood, address or city> or null",
+  "max_price": <1-4> or null,
+  "max_distance_km": <1-25> or null,
+  "cuisine": ["..."] or null,
+  "veg_only": <true/false> or null,
+  "jain_food": <true/false> or null,
+  "menu": ["dish", "..."] or null,
+  "open_now": <true/false> or null,
+  "open_at": "<HH:MM>" or null
+}`;
+
+export const parseQueryResponse = (text: string): ParsedQuery | null => {
+  let json: unknown;
+  try {
+    json = JSON.parse(repairJson(text));
+  } catch {
+    return null;
+  }
+
+  // An object with none of the fields answered something else
+  if (typeof json !== 'object' || json === null || !Object.keys(ParsedQuerySchema.shape).some(key => key in json)) {
+    return null;
+  }
+
+  const parsed = ParsedQuerySchema.safeParse(json);
+  return parsed.success ? compact(parsed.data) : null;
+};
+
+const PRICE_WORDS: Array<[RegExp, number]> = [
+  [/\b(cheap|cheapest|budget|inexpensive|low[- ]cost)\b/i, 1],
+  [/\b(affordable|reasonable|moderate|mid[- ]range|not too expensive)\b/i, 2],
+];
+
+// Dishes recognised without a "serving ..." phrase; kept short on purpose,
+// the LLM handles the long tail
+const KNOWN_DISHES = [
+  'thali', 'biryani', 'dosa', 'idli', 'vada pav', 'pav bhaji', 'misal pav', 'chole bhature', 'paneer tikka',
+  'butter chicken', 'dal makhani', 'dhokla', 'samosa', 'pani puri', 'chaat', 'momos', 'kebab', 'shawarma',
+  'falafel', 'pizza', 'pasta', 'burger', 'sushi', 'ramen', 'noodles', 'fried rice', 'dim sum', 'tacos', 'pho',
+];
+
+const LOCATION_STOP_WORDS = ['open', 'under', 'within', 'with', 'for', 'serving', 'that', 'which', 'and', 'after', 'before', 'below', 'less', 'cheap', 'budget'];
+
+const NOT_A_LOCATION = /^(me|here|my (location|place|area)|the area|night|lunch|dinner)$/i;
+
+// "10pm", "10:30 pm", "22:00"; bare hours are taken as written (24-hour)
+const parseTime = (hours: string, minutes: string | undefined, meridiem: string | undefined): string | undefined => {
+  let hour = Number(hours);
+  const minute = Number(minutes ?? 0);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return undefined;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// Offline parser for when no LLM is available. Each recognised phrase is
+// cut from the text so it can't be read again as part of the location.
+export const parseQueryWithRules = (query: string): ParsedQuery => {
+  const result: ParsedQuery = {};
+  let rest = ` ${query.replace(/\s+/g, ' ').trim()} `;
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], ' ');
+    return match;
+  };
+
+  if (take(/\b(open now|open right now|currently open)\b/i)) {
+    result.open_now = true;
+  }
+  const time = take(/\b(?:open\s+)?(?:after|at|till|until|past|by)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/i)
+    ?? take(/\bopen\s+(?:after|at|till|until|past|by)\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i);
+  if (time) {
+    result.open_at = parseTime(time[1], time[2], time[3]);
+  } else if (take(/\blate[- ]night\b/i)) {
+    result.open_at = '23:00';
+  }
+
+  const distance = take(/\b(?:within|under|less than)?\s*(\d+(?:\.\d+)?)\s*(km|kms|kilometers?|kilometres?|mi|miles?)\b/i);
+  if (distance) {
+    const km = Number(distance[1]) * (distance[2].toLowerCase().startsWith('mi') ? 1.609 : 1);
+    result.max_distance_km = clamp(Math.round(km), 1, 25);
+  } else if (take(/\bwalking distance\b/i)) {
+    result.max_distance_km = 1;
+  }
+
+  for (const [pattern, price] of PRICE_WORDS) {
+    if (take(pattern)) {
+      result.max_price = price;
+      break;
+    }
+  }
+
+  if (take(/\bnon[- ]?veg(etarian)?\b/i)) {
+    result.veg_only = false;
+  } else if (take(/\b(pure[- ]veg|veg|vegetarian|vegan)\b/i)) {
+    result.veg_only = true;
+  }
+  if (take(/\bjain\b/i)) {
+    result.jain_food = true;
+  }
+
+  const location = rest.match(new RegExp(
+    `\\b(?:near|in|around|at)\\s+(.+?)(?=\\s+(?:${LOCATION_STOP_WORDS.join('|')})\\b|[,.;!?]|\\s*$)`,
+    'i'
+  ));
+  if (location && !NOT_A_LOCATION.test(location[1].trim())) {
+    result.location = location[1].trim();
+    rest = rest.replace(location[0], ' ');
+  }
+
+  const text = rest.toLowerCase();
+  result.cuisine = CUISINE_LABELS.filter(label => new RegExp(`\\b${label.toLowerCase()}\\b`).test(text));
+
+  const serving = text.match(/\b(?:serving|serves)\s+([a-z ]+?)(?=\s+(?:and|near|in|open)\b|[,.;!?]|\s*$)/);
+  const dishes = KNOWN_DISHES.filter(dish => new RegExp(`\\b${dish}s?\\b`).test(text));
+  if (serving && !KNOWN_DISHES.some(dish => serving[1].includes(dish))) {
+    dishes.push(serving[1].trim());
+  }
+  result.menu = dishes;
+
+  return compact(result);
+};
+
+// The LLM reads requests the rules can't ("somewhere quiet for dosa near
+// work"); when there is no LLM or its answer is unusable the rules still
+// give a usable result
+export const parseQuery = async (llm: LLMClient | null, query: string): Promise<QueryParseResult> => {
+  if (llm) {
+    try {
+      const text = await llm.generate({ prompt: buildQueryPrompt(query), temperature: 0, maxOutputTokens: 300, json: true });
+      const filters = parseQueryResponse(text);
+      if (filters) {
+        return { filters, source: 'llm' };
+      }
+      console.warn(`${llm.name} returned unusable query filters:`, text);
+    } catch (error) {
+      console.error('LLM query parsing failed:', error);
+    }
+  }
+
+  return { filters: parseQueryWithRules(query), source: 'rules' };
+};
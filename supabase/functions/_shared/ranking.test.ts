@@ -0,0 +1,33 @@
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { computeScore, DEFAULT_WEIGHTS, normalizeWeights, type Score } from './ranking.ts';
+
+// Each row is rounded to 0.1 and the total to a whole number
+const assertBreakdownAddsUp = ({ total_score, score_breakdown }: Score) => {
+  const sum = score_breakdown.reduce((total, component) => total + component.points, 0);
+  assert(Math.abs(sum - total_score) <= 0.5 + 0.05 * score_breakdown.length, `rows sum to ${sum}, total is ${total_score}`);
+};
+
+Deno.test('computeScore breakdown adds up to total_score', () => {
+  const score = computeScore({ rating: 0.8, ai: 0.7, price_fit: 1 }, DEFAULT_WEIGHTS);
+
+  assertEquals(score.total_score, 81);
+  assertBreakdownAddsUp(score);
+});
+
+Deno.test('computeScore breakdown adds up to total_score with a dietary penalty', () => {
+  for (const dietary of [0, 0.7, 1]) {
+    const score = computeScore({ rating: 0.8, ai: 0.7, price_fit: 1, dietary }, DEFAULT_WEIGHTS);
+    assertBreakdownAddsUp(score);
+  }
+
+  const mismatch = computeScore({ rating: 0.8, ai: 0.7, price_fit: 1, dietary: 0 }, DEFAULT_WEIGHTS);
+  assertEquals(mismatch.total_score, 41);
+  assertEquals(mismatch.score_breakdown.find(component => component.key === 'dietary')?.points, -40.5);
+});
+
+Deno.test('normalizeWeights rejects unknown keys and out-of-range values', () => {
+  assertThrows(() => normalizeWeights({ vibes: 10 }), Error, 'Unknown ranking weight: vibes');
+  assertThrows(() => normalizeWeights({ rating: 101 }), Error, 'weights.rating must be a number between 0 and 100');
+  assertThrows(() => normalizeWeights([]), Error, 'weights must be an object');
+  assertEquals(normalizeWeights({ rating: 10 }).rating, 10);
+});
@@ -0,0 +1,98 @@
+export type ScoreComponentKey = 'rating' | 'ai' | 'price_fit' | 'distance' | 'cuisine' | 'dishes' | 'taste' | 'group' | 'dietary';
+
+export type RankingWeights = Record<ScoreComponentKey, number>;
+
+// The defaults keep the original 50 rating / 30 AI / 20 price split.
+// Cuisine, dishes, distance and taste (the saved profile) only count when
+// requested; at 25, any one of them alone makes up 20% of the total. Group
+// fit (group searches) gets 40, about 29% alone. Dietary is a penalty: at 50 an
+// unknown fit costs 15% and a mismatch 50%.
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  rating: 50,
+  ai: 30,
+  price_fit: 20,
+  distance: 25,
+  cuisine: 25,
+  dishes: 25,
+  taste: 25,
+  group: 40,
+  dietary: 50,
+};
+
+export const MIN_WEIGHT = 0;
+export const MAX_WEIGHT = 100;
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  weight: number;
+  value: number;    // 0-1, how well the restaurant does on this factor
+  points: number;   // contribution to total_score; negative for the dietary penalty
+}
+
+export interface Score {
+  total_score: number;
+  score_breakdown: ScoreComponent[];
+}
+
+// Validates per-request weight overrides and fills in the defaults
+export const normalizeWeights = (weights: unknown = {}): RankingWeights => {
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+    throw new Error('weights must be an object');
+  }
+
+  const normalized = { ...DEFAULT_WEIGHTS };
+
+  for (const [key, value] of Object.entries(weights)) {
+    if (!(key in DEFAULT_WEIGHTS)) {
+      throw new Error(`Unknown ranking weight: ${key}`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < MIN_WEIGHT || value > MAX_WEIGHT) {
+      throw new Error(`weights.${key} must be a number between ${MIN_WEIGHT} and ${MAX_WEIGHT}`);
+    }
+    normalized[key as ScoreComponentKey] = value;
+  }
+
+  return normalized;
+};
+
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Weighted average of the factors that apply to this search, scaled to
+// 0-100, then reduced by the dietary penalty when one applies. `values`
+// holds only the active factors, each in 0-1. The breakdown lists each
+// factor's share of the unpenalized score plus one negative dietary row,
+// so its points add up to total_score.
+export const computeScore = (
+  values: Partial<Record<ScoreComponentKey, number>>,
+  weights: RankingWeights,
+): Score => {
+  const { dietary, ...additive } = values;
+  const entries = Object.entries(additive) as Array<[ScoreComponentKey, number]>;
+  const totalWeight = entries.reduce((sum, [key]) => sum + weights[key], 0);
+
+  const baseScore = totalWeight > 0
+    ? entries.reduce((sum, [key, value]) => sum + weights[key] * value, 0) / totalWeight * 100
+    : 0;
+  const multiplier = dietary === undefined ? 1 : 1 - (weights.dietary / MAX_WEIGHT) * (1 - dietary);
+
+  const components: ScoreComponent[] = entries.map(([key, value]) => ({
+    key,
+    weight: weights[key],
+    value,
+    points: totalWeight > 0 ? roundPoints(weights[key] * value / totalWeight * 100) : 0,
+  }));
+
+  if (dietary !== undefined) {
+    components.push({
+      key: 'dietary',
+      weight: weights.dietary,
+      value: dietary,
+      points: roundPoints(baseScore * multiplier - baseScore),
+    });
+  }
+
+  return {
+    total_score: Math.round(baseScore * multiplier),
+    score_breakdown: components,
+  };
+};
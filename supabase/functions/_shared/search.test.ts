@@ -0,0 +1,159 @@
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ChatRequest, ChatResponse, LLMClient, LLMRequest } from './llm/index.ts';
+import { StubLLMClient, type StubResponses } from './llm/stub.ts';
+import { LocalPlacesProvider } from './places/local.ts';
+import { normalizeSearchParams, runSearch, type SearchContext, type SearchParams } from './search.ts';
+
+// Runs the whole search pipeline offline: fixture places, canned LLM
+// answers and a database that has nothing cached and accepts every write.
+// Run with `npm run test:functions` (needs Deno).
+
+const PLACES_FIXTURE_URL = new URL('./places/fixtures/places.json', import.meta.url);
+const STUB_RESPONSES_URL = new URL('./llm/fixtures/stub-responses.json', import.meta.url);
+
+// `searchRow` is what a user_searches lookup finds; updates to that table
+// are collected in `searchUpdates`
+const emptyDatabase = (searchRow: unknown = null, searchUpdates: unknown[] = []): SupabaseClient => ({
+  from: (table: string) => {
+    const query: Record<string, unknown> = {
+      then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+      update: (values: unknown) => {
+        if (table === 'user_searches') searchUpdates.push(values);
+        return query;
+      },
+    };
+    for (const method of ['select', 'eq', 'is', 'gte', 'in', 'order', 'limit', 'insert', 'upsert']) {
+      query[method] = () => query;
+    }
+    for (const method of ['single', 'maybeSingle']) {
+      query[method] = () => Promise.resolve({ data: table === 'user_searches' ? searchRow : null, error: null });
+    }
+    return query;
+  },
+}) as unknown as SupabaseClient;
+
+const createTestContext = async (llm?: LLMClient, supabase = emptyDatabase()): Promise<SearchContext> => ({
+  supabase,
+  places: await LocalPlacesProvider.fromFile(PLACES_FIXTURE_URL),
+  llm: llm ?? await StubLLMClient.fromFile(STUB_RESPONSES_URL),
+});
+
+const search = async (params: Omit<SearchParams, 'location'>, llm?: LLMClient) =>
+  runSearch(await createTestContext(llm), normalizeSearchParams({ location: 'andheri', ...params }));
+
+Deno.test('normalizeSearchParams rejects a missing location and out-of-range radius or max_price', () => {
+  const invalid: Array<[Record<string, unknown>, string]> = [
+    [{}, 'location is required'],
+    [{ location: '  ' }, 'location is required'],
+    [{ location: 42 }, 'location is required'],
+    [{ location: 'andheri', radius: '5000' }, 'radius must be'],
+    [{ location: 'andheri', radius: -1 }, 'radius must be'],
+    [{ location: 'andheri', radius: 100000 }, 'radius must be'],
+    [{ location: 'andheri', max_price: 'cheap' }, 'max_price must be'],
+    [{ location: 'andheri', max_price: 0 }, 'max_price must be'],
+    [{ location: 'andheri', max_price: 2.5 }, 'max_price must be'],
+    [{ location: 'andheri', weights: { rating: 500 } }, 'weights.rating must be'],
+  ];
+
+  for (const [params, message] of invalid) {
+    assertThrows(() => normalizeSearchParams(params as unknown as SearchParams), Error, message);
+  }
+
+  const request = normalizeSearchParams({ location: 'andheri' });
+  assertEquals([request.radius, request.max_price], [5000, 4]);
+});
+
+Deno.test('runSearch ranks every nearby fixture place by total score', async () => {
+  const { restaurants, total_found } = await search({});
+
+  assertEquals(total_found, 8);
+  assertEquals(restaurants.length, 8);
+  for (let i = 1; i < restaurants.length; i++) {
+    assert(restaurants[i - 1].total_score >= restaurants[i].total_score, 'results are sorted by total_score');
+  }
+  assert(restaurants.every(restaurant => restaurant.ai_summary), 'every place gets an AI summary');
+});
+
+Deno.test('runSearch ranks places that break the diet below every match', async () => {
+  const { restaurants } = await search({ veg_only: true, dietary_mode: 'rank' });
+  const lastMatch = restaurants.map(restaurant => restaurant.dietary_fit).lastIndexOf('match');
+  const firstMismatch = restaurants.findIndex(restaurant => restaurant.dietary_fit === 'mismatch');
+
+  assert(lastMatch >= 0 && firstMismatch >= 0, 'the fixtures have both veg and non-veg places');
+  assert(lastMatch < firstMismatch, 'mismatches rank below matches');
+
+  // Sakura has the best rating and AI score but serves fish
+  const { restaurants: unfiltered } = await search({});
+  const sakura = (results: typeof restaurants) =>
+    results.find(restaurant => restaurant.place_id === 'local-andheri-004')?.total_score ?? 0;
+  assert(sakura(restaurants) < sakura(unfiltered), 'the dietary penalty lowers the score');
+});
+
+Deno.test('runSearch drops places that break the diet in filter mode', async () => {
+  const { restaurants } = await search({ veg_only: true, dietary_mode: 'filter' });
+
+  assert(restaurants.length > 0);
+  assert(restaurants.every(restaurant => restaurant.dietary_fit !== 'mismatch'));
+});
+
+Deno.test('runSearch only fills in search history rows that belong to the caller', async () => {
+  const row = { search_location: { address: 'andheri' }, user_id: 'owner' };
+
+  for (const [userId, updated] of [['owner', 1], ['someone-else', 0], [null, 0]] as const) {
+    const updates: unknown[] = [];
+    const context = await createTestContext(undefined, emptyDatabase(row, updates));
+    const request = { ...normalizeSearchParams({ location: 'andheri', search_id: 'search-1' }), user_id: userId };
+    await runSearch(context, request);
+
+    assertEquals(updates.length, updated, `caller ${userId}`);
+  }
+});
+
+// Answers the first analysis of a place with broken output, then defers to
+// the canned responses: `fenced` places get them wrapped in a code fence
+// with a trailing comma (repairable), `invalid` ones get text that fails
+// the schema, so only the stricter retry succeeds.
+class FlakyLLMClient implements LLMClient {
+  readonly name = 'flaky';
+  readonly attempts = new Map<string, number>();
+
+  constructor(
+    private readonly stub: StubLLMClient,
+    private readonly responses: StubResponses,
+    private readonly fenced: string,
+    private readonly invalid: string,
+  ) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    const placeId = [this.fenced, this.invalid].find(id => request.prompt.includes(id));
+    if (placeId) {
+      this.attempts.set(placeId, (this.attempts.get(placeId) ?? 0) + 1);
+    }
+
+    if (placeId === this.fenced) {
+      return `Here you go:\n\`\`\`json\n${JSON.stringify(this.responses[placeId]).replace(/}$/, ',}')}\n\`\`\``;
+    }
+    if (placeId === this.invalid && !request.json) {
+      return JSON.stringify({ place_id: placeId, rank_score: 'great' });
+    }
+    return this.stub.generate(request);
+  }
+
+  chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.stub.chat(request);
+  }
+}
+
+Deno.test('runSearch repairs near-JSON analyses and retries ones that fail the schema', async () => {
+  const responses: StubResponses = JSON.parse(await Deno.readTextFile(STUB_RESPONSES_URL));
+  const llm = new FlakyLLMClient(new StubLLMClient(responses), responses, 'local-andheri-001', 'local-andheri-002');
+  const { restaurants } = await search({}, llm);
+  const find = (placeId: string) => restaurants.find(restaurant => restaurant.place_id === placeId);
+
+  assertEquals(llm.attempts.get('local-andheri-001'), 1);
+  assertEquals(find('local-andheri-001')?.ai_summary?.rank_score, 88);
+
+  assertEquals(llm.attempts.get('local-andheri-002'), 2);
+  assertEquals(find('local-andheri-002')?.ai_summary?.rank_score, 74);
+});
@@ -0,0 +1,715 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createPlacesProvider,
+  type MenuItem,
+  type NearbyPlace,
+  type PlaceDetails,
+  type PlaceReview,
+  type PlacesProvider,
+} from './places/index.ts';
+import { createLLMClient, type LLMClient } from './llm/index.ts';
+import { analyzeRestaurant, type AnalysisInput } from './analysis.ts';
+import { cuisineKeyword, matchCuisines, parseCuisines, type CuisineMatch } from './cuisine.ts';
+import { matchDishes, parseDishes, type DishMatch } from './dishes.ts';
+import { isOpenAt, localMinuteOfWeek, minuteOfWeekAtTime, normalizeOpeningHours, type OpeningHours } from './hours.ts';
+import {
+  classifyDietary,
+  dietaryFit,
+  worstFit,
+  type DietaryClassification,
+  type DietaryConfidence,
+  type DietaryFit,
+} from './dietary.ts';
+import { EMPTY_TASTE_PROFILE, dietaryNeeds, matchTaste, normalizeTasteProfile, type TasteMatch, type TasteProfile } from './profile.ts';
+import {
+  groupProfile,
+  groupSearchFilters,
+  hasGroupNeeds,
+  matchGroup,
+  matchGroupNeeds,
+  normalizeGroup,
+  type GroupMatch,
+  type GroupMember,
+} from './group.ts';
+import { estimateTravelTime, haversineDistance, type Coordinates, type TravelEstimate } from './geo.ts';
+import {
+  computeScore,
+  normalizeWeights,
+  type RankingWeights,
+  type Score,
+  type ScoreComponent,
+  type ScoreComponentKey,
+} from './ranking.ts';
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_RESULTS = 25;
+// Google's nearby search won't look further than this
+const MAX_RADIUS_METERS = 50000;
+
+// How well a restaurant meets the requested diet, for the dietary penalty
+const DIETARY_FIT_VALUES: Record<DietaryFit, number> = { match: 1, unknown: 0.7, mismatch: 0 };
+
+export interface SearchParams {
+  location: string;           // "lat,lng" or address
+  radius?: number;
+  max_price?: number;
+  cuisine?: string;
+  veg_only?: boolean;
+  jain_food?: boolean;
+  menu?: string[];            // dishes the user wants
+  dietary_mode?: 'filter' | 'rank';  // drop or down-rank places that fail veg/Jain
+  open_now?: boolean;
+  open_at?: string;           // "HH:MM" today, in each restaurant's local time
+  stream?: boolean;           // respond with NDJSON SearchEvents
+  page_token?: string;        // next_page_token from a previous response with the same params
+  distance_decay?: boolean;   // blend proximity to the search location into total_score
+  sort_by?: 'score' | 'distance';
+  weights?: Partial<RankingWeights>;  // each 0-100, see ranking.ts
+  search_id?: string;         // user_searches row to fill in once the first page completes
+  profile?: Partial<TasteProfile>;    // saved preferences, see profile.ts
+  group?: Array<Partial<GroupMember>>;  // diners in a group search, see group.ts
+}
+
+// SearchParams with defaults applied and free-text fields parsed
+export interface SearchRequest extends Required<Omit<SearchParams, 'open_at' | 'cuisine' | 'menu' | 'stream' | 'page_token' | 'weights' | 'search_id' | 'profile' | 'group'>> {
+  open_at?: string;
+  page_token?: string;
+  search_id?: string;
+  user_id?: string | null;    // the signed-in caller, from their JWT; only they can fill in search_id's row
+  weights: RankingWeights;
+  profile: TasteProfile;
+  group: GroupMember[];       // empty unless this is a group search
+  cuisines: string[];
+  dishes: string[];
+}
+
+export interface SearchContext {
+  supabase: SupabaseClient;
+  places: PlacesProvider;
+  llm: LLMClient;
+}
+
+// Shape of a restaurants table row
+export interface RestaurantRow extends DietaryClassification {
+  place_id: string;
+  name: string;
+  rating: number;
+  user_ratings_total: number | null;
+  price_level: number;
+  formatted_address: string;
+  location: Coordinates;
+  photos: string[];
+  phone_number?: string;
+  website?: string;
+  types: string[];
+  reviews: PlaceReview[];
+  menu: MenuItem[] | null;
+  opening_hours: OpeningHours | null;
+  cached_at: string;
+}
+
+// Shape of a restaurant_ai_summaries table row
+export interface AiSummaryRow {
+  place_id: string;
+  preferences_key: string;    // '' for the neutral analysis, see analysisPreferencesKey
+  rank_score: number;
+  short_summary: string;
+  pros: string[];
+  cons: string[];
+  dishes_to_try: string[];
+  cuisines: string[];
+  matching_menu_items: string[];
+  top_positive_quote?: string | null;
+  top_negative_quote?: string | null;
+  confidence: number;
+  generated_at: string;
+}
+
+export interface RestaurantResult {
+  id: string;
+  place_id: string;
+  name: string;
+  rating: number;
+  user_ratings_total: number | null;
+  price_level: number;
+  formatted_address: string;
+  location: Coordinates;
+  photos: string[];
+  phone_number?: string;
+  website?: string;
+  types: string[];
+  opening_hours: OpeningHours | null;
+  ai_summary?: Omit<AiSummaryRow, 'place_id' | 'preferences_key' | 'generated_at'>;
+  ai_summary_error?: string;
+  dietary: {
+    veg_only: boolean;
+    veg_confidence: DietaryConfidence;
+    jain_food: boolean;
+    jain_confidence: DietaryConfidence;
+    signals: string[];
+  };
+  dietary_fit: DietaryFit;
+  dish_matches: DishMatch[];
+  cuisine_match?: CuisineMatch | null;
+  taste_match?: TasteMatch | null;
+  group_match?: GroupMatch | null;
+  distance_meters: number;    // straight line from search_location
+  travel_time: TravelEstimate;
+  total_score: number;
+  score_breakdown: ScoreComponent[];
+}
+
+export type SearchEvent =
+  | { type: 'location'; search_location: Coordinates; candidates: number }
+  | { type: 'restaurant'; stage: 'basic' | 'analyzed'; restaurant: RestaurantResult }
+  | { type: 'done'; total_found: number; next_page_token?: string }
+  | { type: 'error'; error: string };
+
+export interface SearchResult {
+  restaurants: RestaurantResult[];
+  search_location: Coordinates;
+  total_found: number;
+  next_page_token?: string;
+}
+
+export const createSearchContext = async (): Promise<SearchContext> => ({
+  supabase: createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  ),
+  places: await createPlacesProvider(),
+  llm: await createLLMClient(),
+});
+
+export const normalizeSearchParams = ({
+  location, radius = 5000, max_price = 4, cuisine = '', veg_only = false, jain_food = false,
+  menu = [], dietary_mode = 'filter', open_now = false, open_at, page_token,
+  distance_decay = false, sort_by = 'score', weights, search_id, profile = EMPTY_TASTE_PROFILE, group = [],
+}: SearchParams): SearchRequest => {
+  if (typeof location !== 'string' || !location.trim()) {
+    throw new Error('location is required');
+  }
+
+  if (typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_METERS) {
+    throw new Error(`radius must be a number of meters from 1 to ${MAX_RADIUS_METERS}`);
+  }
+
+  if (typeof max_price !== 'number' || !Number.isInteger(max_price) || max_price < 1 || max_price > 4) {
+    throw new Error('max_price must be an integer from 1 to 4');
+  }
+
+  if (open_at && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(open_at)) {
+    throw new Error('open_at must be a time in HH:MM format');
+  }
+
+  if (sort_by !== 'score' && sort_by !== 'distance') {
+    throw new Error("sort_by must be 'score' or 'distance'");
+  }
+
+  const members = normalizeGroup(group);
+  // A group's members replace the single user's diet, budget and profile
+  const groupFilters = members.length > 0 ? groupSearchFilters(members) : null;
+
+  return {
+    location, radius, dietary_mode, open_now, open_at, page_token, search_id,
+    max_price: groupFilters?.max_price ?? max_price,
+    veg_only: veg_only || !!groupFilters?.veg_only,
+    jain_food: jain_food || !!groupFilters?.jain_food,
+    // An explicit distance weight turns the decay on
+    distance_decay: distance_decay || (weights?.distance ?? 0) > 0,
+    sort_by,
+    weights: normalizeWeights(weights),
+    profile: members.length > 0 ? groupProfile(members) : normalizeTasteProfile(profile),
+    group: members,
+    cuisines: parseCuisines(cuisine),
+    dishes: parseDishes(menu),
+  };
+};
+
+// Step 1: Convert location to coordinates if needed
+export const resolveCoordinates = async (places: PlacesProvider, location: string): Promise<Coordinates> => {
+  if (location.includes(',') && /^-?\d+\.?\d*,-?\d+\.?\d*$/.test(location.trim())) {
+    // Already coordinates (lat,lng format)
+    const [lat, lng] = location.split(',').map(parseFloat);
+    if (isNaN(lat) || isNaN(lng)) {
+      throw new Error('Invalid coordinate format');
+    }
+    return { lat, lng };
+  }
+
+  // Geocode the address
+  return places.geocode(location);
+};
+
+// Step 3: Get detailed information for a restaurant, from cache when fresh
+export const loadRestaurant = async ({ supabase, places }: SearchContext, placeId: string): Promise<RestaurantRow | null> => {
+  const { data: cachedRestaurant } = await supabase
+    .from('restaurants')
+    .select('*')
+    .eq('place_id', placeId)
+    .gte('cached_at', new Date(Date.now() - CACHE_TTL_MS).toISOString())
+    .single();
+
+  if (cachedRestaurant) {
+    console.log(`Using cached data for ${cachedRestaurant.name}`);
+    return cachedRestaurant;
+  }
+
+  // Fetch place details
+  const details: PlaceDetails | null = await places.details(placeId);
+
+  if (!details) {
+    return null;
+  }
+
+  // Process photos
+  const photos = details.photos?.slice(0, 3).map(photo =>
+    places.photo(photo.photo_reference)
+  ) || [];
+
+  // Create restaurant object
+  const restaurantData: RestaurantRow = {
+    place_id: details.place_id,
+    name: details.name,
+    rating: details.rating,
+    user_ratings_total: details.user_ratings_total ?? null,
+    price_level: details.price_level,
+    formatted_address: details.formatted_address,
+    location: details.geometry.location,
+    photos,
+    phone_number: details.formatted_phone_number,
+    website: details.website,
+    types: details.types,
+    reviews: details.reviews || [],
+    menu: details.menu ?? null,
+    opening_hours: normalizeOpeningHours(details.opening_hours, details.utc_offset_minutes),
+    ...classifyDietary(details),
+    cached_at: new Date().toISOString()
+  };
+
+  // Cache the restaurant data
+  await supabase
+    .from('restaurants')
+    .upsert(restaurantData, { onConflict: 'place_id' });
+
+  console.log(`Cached restaurant data for ${details.name}`);
+
+  return restaurantData;
+};
+
+// Step 4: Get or generate AI summary
+interface SummaryOutcome {
+  aiSummary?: AiSummaryRow;
+  aiSummaryError?: string;
+}
+
+// What a fresh analysis is told to look out for
+export type AnalysisPreferences = Pick<SearchRequest, 'veg_only' | 'jain_food' | 'dishes' | 'profile'>;
+
+const analysisFilters = (preferences: AnalysisPreferences): AnalysisInput['filters'] => ({
+  veg_only: preferences.veg_only,
+  jain_food: preferences.jain_food,
+  menu: preferences.dishes,
+  dietary_needs: dietaryNeeds(preferences.profile),
+  allergens: preferences.profile.allergens,
+});
+
+// Summaries are cached per set of preferences, since the prompt tailors the
+// pros, cons and dishes to them. '' for none, so everyone without
+// preferences (and the restaurant page) shares the neutral analysis.
+export const analysisPreferencesKey = async (preferences: AnalysisPreferences): Promise<string> => {
+  const filters = analysisFilters(preferences);
+  const normalizeList = (values: string[]) => [...new Set(values.map(value => value.trim().toLowerCase()))].sort();
+  const key = {
+    veg_only: filters.veg_only,
+    jain_food: filters.jain_food,
+    menu: normalizeList(filters.menu),
+    dietary_needs: normalizeList(filters.dietary_needs),
+    allergens: normalizeList(filters.allergens),
+  };
+
+  if (!key.veg_only && !key.jain_food && key.menu.length + key.dietary_needs.length + key.allergens.length === 0) {
+    return '';
+  }
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(key)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const summarizeRestaurant = async (
+  { supabase, llm }: SearchContext,
+  restaurantData: RestaurantRow,
+  preferences: AnalysisPreferences,
+): Promise<SummaryOutcome> => {
+  const preferencesKey = await analysisPreferencesKey(preferences);
+  const { data: cachedSummary } = await supabase
+    .from('restaurant_ai_summaries')
+    .select('*')
+    .eq('place_id', restaurantData.place_id)
+    .eq('preferences_key', preferencesKey)
+    .gte('generated_at', new Date(Date.now() - CACHE_TTL_MS).toISOString())
+    .maybeSingle();
+
+  if (cachedSummary) {
+    console.log(`Using cached AI summary for ${restaurantData.name}`);
+    return { aiSummary: cachedSummary };
+  }
+
+  const reviewTexts = (restaurantData.reviews ?? [])
+    .filter(review => review.text && review.text.length > 20)
+    .slice(0, 12) // take more reviews if available
+    .map(review => review.text);
+
+  if (!restaurantData.reviews?.length) {
+    return { aiSummaryError: 'No reviews available to analyze' };
+  }
+
+  if (reviewTexts.length === 0) {
+    return { aiSummaryError: 'Not enough review text to analyze' };
+  }
+
+  // Generate AI analysis using the configured LLM
+  const result = await analyzeRestaurant(llm, {
+    place_id: restaurantData.place_id,
+    name: restaurantData.name,
+    rating: restaurantData.rating,
+    price_level: restaurantData.price_level,
+    cuisine: restaurantData.types?.join(', ') ?? '',
+    address: restaurantData.formatted_address,
+    reviews: reviewTexts,
+    filters: analysisFilters(preferences),
+  });
+
+  if (!result.ok) {
+    console.warn(`AI analysis failed for ${restaurantData.name} via ${llm.name}: ${result.reason}`);
+    return { aiSummaryError: result.reason };
+  }
+
+  const { analysis } = result;
+
+  // Save the validated AI summary
+  const aiSummary: AiSummaryRow = {
+    place_id: restaurantData.place_id,
+    preferences_key: preferencesKey,
+    rank_score: analysis.rank_score,
+    short_summary: analysis.short_summary,
+    pros: analysis.pros,
+    cons: analysis.cons,
+    dishes_to_try: analysis.dishes_to_try,
+    cuisines: analysis.cuisines,
+    matching_menu_items: analysis.matching_menu_items,
+    top_positive_quote: analysis.top_positive_quote ?? null,
+    top_negative_quote: analysis.top_negative_quote ?? null,
+    confidence: analysis.confidence,
+    generated_at: new Date().toISOString()
+  };
+
+  await supabase
+    .from('restaurant_ai_summaries')
+    .upsert(aiSummary, { onConflict: 'place_id,preferences_key' });
+
+  console.log(`Generated AI summary for ${restaurantData.name}`);
+
+  return { aiSummary };
+};
+
+// Hard filters that do not need the AI analysis. Returns null when the
+// restaurant should be dropped.
+const applyFilters = (restaurantData: RestaurantRow, request: SearchRequest) => {
+  // Rows cached before dietary classification existed have no confidence
+  const classification: DietaryClassification = restaurantData.veg_confidence
+    ? restaurantData
+    : classifyDietary(restaurantData);
+
+  // A group's halal, gluten-free and allergen needs are hard constraints too
+  const groupNeeds = request.group.length > 0 ? matchGroupNeeds(request.group, restaurantData) : null;
+  const dietary: DietaryClassification = groupNeeds
+    ? { ...classification, dietary_signals: [...classification.dietary_signals, ...groupNeeds.signals] }
+    : classification;
+  const dietaryMatch = groupNeeds
+    ? worstFit(dietaryFit(dietary, request), groupNeeds.fit)
+    : dietaryFit(dietary, request);
+
+  // Drop confident mismatches before spending an LLM call on them
+  if (request.dietary_mode === 'filter' && dietaryMatch === 'mismatch') {
+    console.log(`Filtered out ${restaurantData.name}: ${dietary.dietary_signals.join('; ')}`);
+    return null;
+  }
+
+  // Places without known hours are kept rather than guessed closed
+  const hours = restaurantData.opening_hours;
+  if (hours && (request.open_now || request.open_at)) {
+    const now = new Date();
+    const minute = request.open_at
+      ? minuteOfWeekAtTime(request.open_at, now, hours.utc_offset_minutes)
+      : localMinuteOfWeek(now, hours.utc_offset_minutes);
+
+    if (!isOpenAt(hours, minute)) {
+      console.log(`Filtered out ${restaurantData.name}: closed at ${request.open_at ?? 'the moment'}`);
+      return null;
+    }
+  }
+
+  return { dietary, dietaryMatch };
+};
+
+// Remember dishes matched on the menu so later searches can match them even
+// when the menu isn't returned. Review mentions aren't kept: a passing
+// mention isn't evidence the place serves the dish.
+const rememberDishMatches = async ({ supabase }: SearchContext, aiSummary: AiSummaryRow | undefined, matched: string[]) => {
+  const knownItems: string[] = aiSummary?.matching_menu_items ?? [];
+  const newItems = matched.filter(item => !knownItems.includes(item));
+
+  if (!aiSummary || newItems.length === 0) {
+    return;
+  }
+
+  aiSummary.matching_menu_items = [...knownItems, ...newItems];
+
+  await supabase
+    .from('restaurant_ai_summaries')
+    .update({ matching_menu_items: aiSummary.matching_menu_items })
+    .eq('place_id', aiSummary.place_id)
+    .eq('preferences_key', aiSummary.preferences_key);
+};
+
+interface BuildResultOptions extends SummaryOutcome {
+  origin: Coordinates;
+  dietary: DietaryClassification;
+  dietaryMatch: DietaryFit;
+}
+
+const buildRestaurantResult = (
+  restaurantData: RestaurantRow,
+  request: SearchRequest,
+  { origin, dietary, dietaryMatch, aiSummary, aiSummaryError }: BuildResultOptions,
+): RestaurantResult => {
+  const dishMatches = request.dishes.length > 0
+    ? matchDishes(request.dishes, {
+      menu: restaurantData.menu,
+      reviews: restaurantData.reviews,
+      known_items: aiSummary?.matching_menu_items,
+    })
+    : [];
+
+  const distanceMeters = Math.round(haversineDistance(origin, restaurantData.location));
+
+  const tasteCandidate = {
+    name: restaurantData.name,
+    price_level: restaurantData.price_level,
+    types: restaurantData.types,
+    ai_cuisines: aiSummary?.cuisines,
+    reviews: restaurantData.reviews,
+    menu: restaurantData.menu,
+  };
+
+  const restaurant: Omit<RestaurantResult, 'total_score' | 'score_breakdown'> = {
+    id: restaurantData.place_id,
+    place_id: restaurantData.place_id,
+    name: restaurantData.name,
+    rating: restaurantData.rating,
+    user_ratings_total: restaurantData.user_ratings_total ?? null,
+    price_level: restaurantData.price_level,
+    formatted_address: restaurantData.formatted_address,
+    location: restaurantData.location,
+    photos: restaurantData.photos,
+    phone_number: restaurantData.phone_number,
+    website: restaurantData.website,
+    types: restaurantData.types,
+    opening_hours: restaurantData.opening_hours,
+    ai_summary: aiSummary ? {
+      rank_score: aiSummary.rank_score,
+      short_summary: aiSummary.short_summary,
+      pros: aiSummary.pros,
+      cons: aiSummary.cons,
+      dishes_to_try: aiSummary.dishes_to_try ?? [],
+      cuisines: aiSummary.cuisines ?? [],
+      matching_menu_items: aiSummary.matching_menu_items ?? [],
+      top_positive_quote: aiSummary.top_positive_quote,
+      top_negative_quote: aiSummary.top_negative_quote,
+      confidence: aiSummary.confidence
+    } : undefined,
+    ai_summary_error: aiSummaryError,
+    dietary: {
+      veg_only: dietary.veg_only,
+      veg_confidence: dietary.veg_confidence,
+      jain_food: dietary.jain_food,
+      jain_confidence: dietary.jain_confidence,
+      signals: dietary.dietary_signals,
+    },
+    dietary_fit: dietaryMatch,
+    dish_matches: dishMatches,
+    cuisine_match: request.cuisines.length > 0
+      ? matchCuisines(request.cuisines, {
+        name: restaurantData.name,
+        types: restaurantData.types,
+        ai_cuisines: aiSummary?.cuisines,
+      })
+      : undefined,
+    // In a group search each member's profile is scored separately
+    taste_match: request.group.length > 0 ? null : matchTaste(request.profile, tasteCandidate),
+    group_match: request.group.length > 0 ? matchGroup(request.group, tasteCandidate) : undefined,
+    distance_meters: distanceMeters,
+    travel_time: estimateTravelTime(distanceMeters),
+  };
+
+  return { ...restaurant, ...scoreRestaurant(restaurant, request) };
+};
+
+// Step 5: Rank restaurants. Only the factors the search asked about count
+// towards the score; see ranking.ts for how the weights combine.
+export const scoreRestaurant = (restaurant: Omit<RestaurantResult, 'total_score' | 'score_breakdown'>, request: SearchRequest): Score => {
+  const values: Partial<Record<ScoreComponentKey, number>> = {
+    rating: restaurant.rating ? restaurant.rating / 5 : 0,
+    ai: restaurant.ai_summary?.rank_score ? restaurant.ai_summary.rank_score / 100 : 0,
+    // Closer to max_price is a better fit
+    price_fit: restaurant.price_level ? 1 - Math.abs(restaurant.price_level - request.max_price) / 4 : 0,
+  };
+
+  if (request.distance_decay) {
+    // Linear decay to zero at the search radius
+    values.distance = Math.max(0, 1 - restaurant.distance_meters / request.radius);
+  }
+
+  if (request.cuisines.length > 0) {
+    values.cuisine = restaurant.cuisine_match ? 1 : 0;
+  }
+
+  if (request.dishes.length > 0) {
+    values.dishes = restaurant.dish_matches.length / request.dishes.length;
+  }
+
+  if (restaurant.taste_match) {
+    values.taste = restaurant.taste_match.value;
+  }
+
+  if (restaurant.group_match) {
+    values.group = restaurant.group_match.value;
+  }
+
+  // Mismatches are only present in "rank" mode
+  if (request.veg_only || request.jain_food || hasGroupNeeds(request.group)) {
+    values.dietary = DIETARY_FIT_VALUES[restaurant.dietary_fit];
+  }
+
+  return computeScore(values, request.weights);
+};
+
+// Fills in the user_searches row the client logged before searching. Rows
+// that already have a count are left alone, so a reused id can't rewrite
+// history, and so are other users' rows (anonymous rows only for anonymous
+// callers); failures are logged rather than failing the search.
+const recordSearchResult = async (
+  { supabase }: SearchContext,
+  searchId: string,
+  userId: string | null,
+  coordinates: Coordinates,
+  resultsCount: number,
+) => {
+  try {
+    const { data: row, error } = await supabase
+      .from('user_searches')
+      .select('search_location, user_id')
+      .eq('id', searchId)
+      .is('results_count', null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!row) return;
+    if ((row.user_id ?? null) !== userId) {
+      console.warn(`Not recording results for search ${searchId}: it belongs to another user`);
+      return;
+    }
+
+    const { error: updateError } = await supabase
+      .from('user_searches')
+      .update({
+        results_count: resultsCount,
+        search_location: { ...row.search_location, lat: coordinates.lat, lng: coordinates.lng },
+      })
+      .eq('id', searchId)
+      .is('results_count', null);
+
+    if (updateError) throw updateError;
+  } catch (error) {
+    console.error(`Error recording results for search ${searchId}:`, error);
+  }
+};
+
+// Runs the whole pipeline for one search. onEvent, when given, receives each
+// restaurant twice: once as soon as its details pass the filters ("basic")
+// and again once its AI summary is ready ("analyzed").
+export const runSearch = async (
+  context: SearchContext,
+  request: SearchRequest,
+  onEvent?: (event: SearchEvent) => void,
+): Promise<SearchResult> => {
+  const coordinates = await resolveCoordinates(context.places, request.location);
+
+  console.log('Using coordinates:', coordinates);
+
+  // Step 2: Search for nearby restaurants
+  const { results: nearbyPlaces, next_page_token } = await context.places.nearby({
+    location: coordinates,
+    radius: request.radius,
+    max_price: request.max_price,
+    keyword: cuisineKeyword(request.cuisines),
+    page_token: request.page_token,
+  });
+
+  console.log(`Found ${nearbyPlaces.length} restaurants via ${context.places.name}${request.page_token ? ' (next page)' : ''}`);
+
+  const candidates = nearbyPlaces.slice(0, MAX_RESULTS);
+  onEvent?.({ type: 'location', search_location: coordinates, candidates: candidates.length });
+
+  const restaurantPromises = candidates.map(async (place: NearbyPlace) => {
+    try {
+      const restaurantData = await loadRestaurant(context, place.place_id);
+      if (!restaurantData) {
+        return null;
+      }
+
+      const filterResult = applyFilters(restaurantData, request);
+      if (!filterResult) {
+        return null;
+      }
+
+      const basicOptions = { ...filterResult, origin: coordinates };
+      onEvent?.({ type: 'restaurant', stage: 'basic', restaurant: buildRestaurantResult(restaurantData, request, basicOptions) });
+
+      const { aiSummary, aiSummaryError } = await summarizeRestaurant(context, restaurantData, request);
+      const restaurant = buildRestaurantResult(restaurantData, request, { ...basicOptions, aiSummary, aiSummaryError });
+
+      await rememberDishMatches(
+        context,
+        aiSummary,
+        restaurant.dish_matches.filter(match => match.source === 'menu').map(match => match.matched),
+      );
+
+      onEvent?.({ type: 'restaurant', stage: 'analyzed', restaurant });
+      return restaurant;
+    } catch (error) {
+      console.error(`Error processing ${place.name}:`, error);
+      return null;
+    }
+  });
+
+  const rankedRestaurants = (await Promise.all(restaurantPromises))
+    .filter((restaurant): restaurant is RestaurantResult => restaurant !== null)
+    .sort(request.sort_by === 'distance'
+      ? (a, b) => a.distance_meters - b.distance_meters
+      : (a, b) => b.total_score - a.total_score);
+
+  console.log(`Returning ${rankedRestaurants.length} ranked restaurants`);
+
+  if (request.search_id && !request.page_token) {
+    await recordSearchResult(context, request.search_id, request.user_id ?? null, coordinates, rankedRestaurants.length);
+  }
+
+  return {
+    restaurants: rankedRestaurants,
+    search_location: coordinates,
+    total_found: rankedRestaurants.length,
+    next_page_token,
+  };
+};
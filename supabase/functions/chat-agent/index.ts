@@ -0,0 +1,87 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createSearchContext, type SearchContext } from '../_shared/search.ts';
+import {
+  createConversation,
+  loadConversation,
+  runAgentTurn,
+  saveMessages,
+  visibleMessages,
+} from '../_shared/agent.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  }
+);
+
+// The signed-in user behind the request; null for the anon key
+const getUserId = async ({ supabase }: SearchContext, req: Request): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data } = await supabase.auth.getUser(token);
+  return data.user?.id ?? null;
+};
+
+// One chat turn: { message, conversation_id? } runs the agent and returns its
+// reply with cited restaurants. { conversation_id } alone returns the
+// conversation so far. Conversations are tied to the user who started them;
+// anonymous ones are reachable by id only.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { conversation_id, message, profile, default_location } = await req.json();
+
+    if (message !== undefined && (typeof message !== 'string' || !message.trim())) {
+      return jsonResponse({ error: 'message must be a non-empty string' }, 400);
+    }
+    if (typeof message === 'string' && message.length > MAX_MESSAGE_LENGTH) {
+      return jsonResponse({ error: `message must be at most ${MAX_MESSAGE_LENGTH} characters` }, 400);
+    }
+    if (message === undefined && typeof conversation_id !== 'string') {
+      return jsonResponse({ error: 'message or conversation_id is required' }, 400);
+    }
+
+    const context = await createSearchContext();
+    const userId = await getUserId(context, req);
+
+    const existing = typeof conversation_id === 'string' ? await loadConversation(context, conversation_id) : null;
+    if (conversation_id && (!existing || (existing.conversation.user_id && existing.conversation.user_id !== userId))) {
+      return jsonResponse({ error: 'Conversation not found' }, 404);
+    }
+
+    if (message === undefined) {
+      return jsonResponse({ conversation_id, messages: visibleMessages(existing!.messages) });
+    }
+
+    const history = existing?.messages ?? [];
+    const turn = await runAgentTurn(context, history, message.trim(), {
+      profile,
+      default_location: typeof default_location === 'string' && default_location.trim() ? default_location.trim() : undefined,
+    });
+
+    const conversation = existing?.conversation ?? await createConversation(context, userId, message.trim());
+    await saveMessages(context, conversation.id, turn.messages);
+
+    return jsonResponse({
+      conversation_id: conversation.id,
+      reply: turn.reply,
+      citations: turn.citations,
+      search: turn.search ?? null,
+    });
+
+  } catch (error) {
+    console.error('Error in chat-agent function:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,58 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createSearchContext } from '../_shared/search.ts';
+import {
+  MAX_COMPARED,
+  MAX_OCCASION_LENGTH,
+  MIN_COMPARED,
+  generateVerdict,
+  loadComparedPlaces,
+} from '../_shared/compare.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  }
+);
+
+// Picks one of the compared places for an occasion ("a quiet date night"),
+// with a note on each of the others
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { place_ids, occasion } = await req.json();
+
+    if (
+      !Array.isArray(place_ids) ||
+      place_ids.some(id => typeof id !== 'string' || !id) ||
+      new Set(place_ids).size !== place_ids.length ||
+      place_ids.length < MIN_COMPARED ||
+      place_ids.length > MAX_COMPARED
+    ) {
+      return jsonResponse({ error: `place_ids must be ${MIN_COMPARED}-${MAX_COMPARED} different place ids` }, 400);
+    }
+    if (typeof occasion !== 'string' || !occasion.trim() || occasion.length > MAX_OCCASION_LENGTH) {
+      return jsonResponse({ error: `occasion must be a non-empty string of at most ${MAX_OCCASION_LENGTH} characters` }, 400);
+    }
+
+    const context = await createSearchContext();
+    const places = await loadComparedPlaces(context, place_ids);
+
+    if (places.length !== place_ids.length) {
+      return jsonResponse({ error: 'Restaurant not found' }, 404);
+    }
+
+    return jsonResponse(await generateVerdict(context.llm, occasion.trim(), places));
+
+  } catch (error) {
+    console.error('Error in compare-restaurants function:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,45 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLLMClient } from '../_shared/llm/index.ts';
+import { MAX_QUERY_LENGTH, parseQuery } from '../_shared/query-parser.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  }
+);
+
+// Turns a free-text request ("cheap Jain thali near Andheri open after
+// 10pm") into search filters. Without a configured LLM the rule-based
+// parser answers instead, so the search box also works offline.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { query } = await req.json();
+
+    if (typeof query !== 'string' || !query.trim()) {
+      return jsonResponse({ error: 'query is required' }, 400);
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return jsonResponse({ error: `query must be at most ${MAX_QUERY_LENGTH} characters` }, 400);
+    }
+
+    const llm = await createLLMClient().catch((error) => {
+      console.warn('No LLM available, parsing with rules:', (error as Error).message);
+      return null;
+    });
+
+    return jsonResponse(await parseQuery(llm, query.trim()));
+
+  } catch (error) {
+    console.error('Error in parse-query function:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
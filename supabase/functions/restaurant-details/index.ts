@@ -0,0 +1,63 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createSearchContext,
+  loadRestaurant,
+  summarizeRestaurant,
+  type AnalysisPreferences,
+} from '../_shared/search.ts';
+import { EMPTY_TASTE_PROFILE } from '../_shared/profile.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+// A place opened directly has no search filters to tailor the analysis to
+const NO_PREFERENCES: AnalysisPreferences = { veg_only: false, jain_food: false, dishes: [], profile: EMPTY_TASTE_PROFILE };
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  }
+);
+
+// Returns the restaurants row and AI summary for one place, fetching and
+// caching them the same way search-restaurants does when they are missing
+// or stale.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { place_id } = await req.json();
+
+    if (typeof place_id !== 'string' || !place_id.trim()) {
+      return jsonResponse({ error: 'place_id is required' }, 400);
+    }
+
+    // Place ids are URL-safe tokens; anything else can't be a real place
+    if (!/^[\w-]+$/.test(place_id)) {
+      return jsonResponse({ error: 'place_id is invalid' }, 400);
+    }
+
+    const context = await createSearchContext();
+    const restaurant = await loadRestaurant(context, place_id);
+
+    if (!restaurant) {
+      return jsonResponse({ error: 'Restaurant not found' }, 404);
+    }
+
+    const { aiSummary, aiSummaryError } = await summarizeRestaurant(context, restaurant, NO_PREFERENCES);
+
+    return jsonResponse({
+      restaurant,
+      ai_summary: aiSummary ?? null,
+      ai_summary_error: aiSummaryError,
+    });
+
+  } catch (error) {
+    console.error('Error in restaurant-details function:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+});
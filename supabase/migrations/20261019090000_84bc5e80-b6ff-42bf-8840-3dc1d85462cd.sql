@@ -0,0 +1,5 @@
+-- Cuisines inferred by the AI analysis, used to match the cuisine filter
+ALTER TABLE public.restaurant_ai_summaries
+  ADD COLUMN cuisines TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_ai_cuisines ON public.restaurant_ai_summaries USING GIN (cuisines);
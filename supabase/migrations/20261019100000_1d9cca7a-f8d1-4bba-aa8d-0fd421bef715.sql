@@ -0,0 +1,6 @@
+-- Confidence and evidence for the rule-based veg / Jain classification
+-- stored in restaurants.veg_only and restaurants.jain_food
+ALTER TABLE public.restaurants
+  ADD COLUMN veg_confidence TEXT CHECK (veg_confidence IN ('low', 'medium', 'high')),
+  ADD COLUMN jain_confidence TEXT CHECK (jain_confidence IN ('low', 'medium', 'high')),
+  ADD COLUMN dietary_signals TEXT[] NOT NULL DEFAULT '{}';
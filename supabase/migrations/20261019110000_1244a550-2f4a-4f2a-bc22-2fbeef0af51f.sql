@@ -0,0 +1,3 @@
+-- Total number of ratings on the place, used for the "most reviewed" sort
+ALTER TABLE public.restaurants
+  ADD COLUMN user_ratings_total INTEGER;
@@ -0,0 +1,20 @@
+-- Link searches to the signed-in user. Anonymous searches keep a NULL
+-- user_id; auth.uid() fills it in for signed-in users.
+ALTER TABLE public.user_searches
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX idx_user_searches_user_id ON public.user_searches(user_id, created_at DESC);
+
+-- Nobody can file a search under someone else's account
+DROP POLICY "Anyone can insert searches" ON public.user_searches;
+
+CREATE POLICY "Anyone can insert their own or anonymous searches"
+ON public.user_searches
+FOR INSERT
+WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+-- Users only read their own history; anonymous rows are not readable
+CREATE POLICY "Users can view their own searches"
+ON public.user_searches
+FOR SELECT
+USING (auth.uid() = user_id);
@@ -0,0 +1,78 @@
+-- Named lists of saved restaurants ("Favorites", "Team lunch", ...)
+CREATE TABLE public.restaurant_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  share_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE, -- read-only link id
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The restaurants cache is cleaned up after 24 hours, so items keep a
+-- snapshot of what the list page needs to show
+CREATE TABLE public.restaurant_list_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_id UUID NOT NULL REFERENCES public.restaurant_lists(id) ON DELETE CASCADE,
+  place_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  formatted_address TEXT,
+  photo TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (list_id, place_id)
+);
+
+CREATE INDEX idx_restaurant_lists_user_id ON public.restaurant_lists(user_id);
+CREATE INDEX idx_restaurant_list_items_list_id ON public.restaurant_list_items(list_id);
+
+CREATE TRIGGER update_restaurant_lists_updated_at
+  BEFORE UPDATE ON public.restaurant_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.restaurant_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.restaurant_list_items ENABLE ROW LEVEL SECURITY;
+
+-- Owners have full access to their lists
+CREATE POLICY "Users can manage their own lists"
+ON public.restaurant_lists
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage items in their own lists"
+ON public.restaurant_list_items
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.restaurant_lists
+  WHERE restaurant_lists.id = list_id AND restaurant_lists.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.restaurant_lists
+  WHERE restaurant_lists.id = list_id AND restaurant_lists.user_id = auth.uid()
+));
+
+-- Shared lists are read through this function only, so nobody can
+-- enumerate other users' lists; it returns NULL unless sharing is on
+CREATE OR REPLACE FUNCTION public.get_shared_list(list_share_token UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'name', l.name,
+    'updated_at', l.updated_at,
+    'items', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object(
+        'place_id', i.place_id,
+        'name', i.name,
+        'formatted_address', i.formatted_address,
+        'photo', i.photo
+      ) ORDER BY i.created_at)
+      FROM public.restaurant_list_items i
+      WHERE i.list_id = l.id),
+      '[]'::jsonb
+    )
+  )
+  FROM public.restaurant_lists l
+  WHERE l.share_token = list_share_token AND l.is_shared;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_list(UUID) TO anon, authenticated;
@@ -0,0 +1,30 @@
+-- One saved dietary and taste profile per user. The search page starts
+-- from it and sends the taste parts along with each search.
+CREATE TABLE public.user_preferences (
+  user_id UUID NOT NULL DEFAULT auth.uid() PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  veg_only BOOLEAN NOT NULL DEFAULT FALSE,
+  jain_food BOOLEAN NOT NULL DEFAULT FALSE,
+  vegan BOOLEAN NOT NULL DEFAULT FALSE,
+  halal BOOLEAN NOT NULL DEFAULT FALSE,
+  gluten_free BOOLEAN NOT NULL DEFAULT FALSE,
+  allergens TEXT[] NOT NULL DEFAULT '{}',
+  favorite_cuisines TEXT[] NOT NULL DEFAULT '{}',
+  disliked_cuisines TEXT[] NOT NULL DEFAULT '{}',
+  max_price INTEGER NOT NULL DEFAULT 4 CHECK (max_price BETWEEN 1 AND 4),
+  default_radius_km INTEGER NOT NULL DEFAULT 10 CHECK (default_radius_km BETWEEN 1 AND 25),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_user_preferences_updated_at
+  BEFORE UPDATE ON public.user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own preferences"
+ON public.user_preferences
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,48 @@
+-- Conversations with the chat-agent function. Only the function writes
+-- them (with the service role); signed-in users can read their own.
+CREATE TABLE public.agent_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- NULL for anonymous chats
+  title TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Every turn, including the model's tool calls and the search results they
+-- returned, so follow-up requests can refine earlier searches
+CREATE TABLE public.agent_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.agent_conversations(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'tool')),
+  content TEXT NOT NULL,
+  tool_calls JSONB,
+  tool_call_id TEXT,
+  tool_name TEXT,
+  restaurants JSONB,           -- tool rows: search results; assistant rows: citations
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (conversation_id, position)
+);
+
+CREATE INDEX idx_agent_conversations_user_id ON public.agent_conversations(user_id, updated_at DESC);
+
+CREATE TRIGGER update_agent_conversations_updated_at
+  BEFORE UPDATE ON public.agent_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.agent_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conversations"
+ON public.agent_conversations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view messages in their own conversations"
+ON public.agent_messages
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.agent_conversations
+  WHERE agent_conversations.id = conversation_id AND agent_conversations.user_id = auth.uid()
+));
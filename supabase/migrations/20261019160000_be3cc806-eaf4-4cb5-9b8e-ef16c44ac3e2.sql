@@ -0,0 +1,184 @@
+-- Group dining: a host starts a session, others join through its link and
+-- add their own needs, and everyone votes on the host's search results
+CREATE TABLE public.group_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 80),
+  location TEXT NOT NULL DEFAULT '',
+  join_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE, -- invite link id
+  results JSONB,               -- ranked restaurants from the host's last search
+  searched_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per diner; the preference columns mirror user_preferences
+CREATE TABLE public.group_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL CHECK (char_length(trim(display_name)) BETWEEN 1 AND 40),
+  veg_only BOOLEAN NOT NULL DEFAULT FALSE,
+  jain_food BOOLEAN NOT NULL DEFAULT FALSE,
+  vegan BOOLEAN NOT NULL DEFAULT FALSE,
+  halal BOOLEAN NOT NULL DEFAULT FALSE,
+  gluten_free BOOLEAN NOT NULL DEFAULT FALSE,
+  allergens TEXT[] NOT NULL DEFAULT '{}',
+  max_price INTEGER NOT NULL DEFAULT 4 CHECK (max_price BETWEEN 1 AND 4),
+  favorite_cuisines TEXT[] NOT NULL DEFAULT '{}',
+  disliked_cuisines TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, user_id)
+);
+
+-- A member can vote for any number of places, once each
+CREATE TABLE public.group_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.group_members(id) ON DELETE CASCADE,
+  place_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (member_id, place_id)
+);
+
+CREATE INDEX idx_group_sessions_created_by ON public.group_sessions(created_by);
+CREATE INDEX idx_group_members_user_id ON public.group_members(user_id);
+CREATE INDEX idx_group_votes_session_id ON public.group_votes(session_id);
+
+CREATE TRIGGER update_group_sessions_updated_at
+  BEFORE UPDATE ON public.group_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_group_members_updated_at
+  BEFORE UPDATE ON public.group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SECURITY DEFINER so the policies below can check membership without
+-- recursing into group_members' own policy
+CREATE OR REPLACE FUNCTION public.is_group_member(group_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.group_members
+    WHERE session_id = group_session_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.group_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_votes ENABLE ROW LEVEL SECURITY;
+
+-- Members see the session; only the host changes it (name, results)
+CREATE POLICY "Members can view their group sessions"
+ON public.group_sessions
+FOR SELECT
+USING (auth.uid() = created_by OR public.is_group_member(id));
+
+CREATE POLICY "Users can create group sessions"
+ON public.group_sessions
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Hosts can update their group sessions"
+ON public.group_sessions
+FOR UPDATE
+USING (auth.uid() = created_by)
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Hosts can delete their group sessions"
+ON public.group_sessions
+FOR DELETE
+USING (auth.uid() = created_by);
+
+-- Joining goes through join_group_session; members edit their own row
+CREATE POLICY "Members can view the other members"
+ON public.group_members
+FOR SELECT
+USING (public.is_group_member(session_id));
+
+CREATE POLICY "Members can update their own preferences"
+ON public.group_members
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Members can leave their groups"
+ON public.group_members
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Members can view votes in their groups"
+ON public.group_votes
+FOR SELECT
+USING (public.is_group_member(session_id));
+
+CREATE POLICY "Members can cast their own votes"
+ON public.group_votes
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.group_members
+  WHERE group_members.id = member_id AND group_members.session_id = group_votes.session_id
+    AND group_members.user_id = auth.uid()
+));
+
+CREATE POLICY "Members can withdraw their own votes"
+ON public.group_votes
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.group_members
+  WHERE group_members.id = member_id AND group_members.user_id = auth.uid()
+));
+
+-- What the invite page shows before joining; NULL for an unknown link
+CREATE OR REPLACE FUNCTION public.get_group_invite(session_join_token UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'session_id', s.id,
+    'name', s.name,
+    'location', s.location,
+    'member_count', (SELECT count(*) FROM public.group_members m WHERE m.session_id = s.id),
+    'is_member', public.is_group_member(s.id)
+  )
+  FROM public.group_sessions s
+  WHERE s.join_token = session_join_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Adds the signed-in user to the session behind an invite link and returns
+-- its id; joining twice keeps the existing member row. 12 members at most,
+-- matching MAX_GROUP_MEMBERS in search-restaurants' group.ts.
+CREATE OR REPLACE FUNCTION public.join_group_session(session_join_token UUID, member_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  target_session_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a group';
+  END IF;
+
+  SELECT id INTO target_session_id FROM public.group_sessions WHERE join_token = session_join_token;
+  IF target_session_id IS NULL THEN
+    RAISE EXCEPTION 'This invite link is not valid';
+  END IF;
+
+  IF NOT public.is_group_member(target_session_id)
+    AND (SELECT count(*) FROM public.group_members WHERE session_id = target_session_id) >= 12 THEN
+    RAISE EXCEPTION 'This group is full';
+  END IF;
+
+  INSERT INTO public.group_members (session_id, user_id, display_name)
+  VALUES (target_session_id, auth.uid(), trim(member_name))
+  ON CONFLICT (session_id, user_id) DO NOTHING;
+
+  RETURN target_session_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_group_invite(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.join_group_session(UUID, TEXT) TO authenticated;
+
+-- Live updates for the session page. Deleted votes need the full old row
+-- for the session_id filter to match.
+ALTER TABLE public.group_votes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.group_sessions, public.group_members, public.group_votes;
@@ -0,0 +1,13 @@
+-- AI summaries are tailored to the dietary needs, allergens and dishes in
+-- the search that generated them, so cache one per set of preferences.
+-- preferences_key is '' for the neutral analysis (no preferences) and a
+-- hash of them otherwise; see analysisPreferencesKey in search.ts.
+ALTER TABLE public.restaurant_ai_summaries
+  ADD COLUMN preferences_key TEXT NOT NULL DEFAULT '';
+
+-- Existing rows may have been tailored to someone, so regenerate them
+DELETE FROM public.restaurant_ai_summaries;
+
+ALTER TABLE public.restaurant_ai_summaries
+  DROP CONSTRAINT restaurant_ai_summaries_place_id_key,
+  ADD CONSTRAINT restaurant_ai_summaries_place_id_preferences_key_key UNIQUE (place_id, preferences_key);
@@ -0,0 +1,17 @@
+-- A member row stays in the session (and with the user) it was created for.
+-- Members may update their own row, so without this they could move it into
+-- another session and skip join_group_session's invite and size checks.
+CREATE OR REPLACE FUNCTION public.keep_group_member_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.session_id IS DISTINCT FROM OLD.session_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'A group member cannot change session or user; join through the invite link instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER keep_group_members_session
+  BEFORE UPDATE ON public.group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_group_member_session();